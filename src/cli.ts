@@ -0,0 +1,285 @@
+/**
+ * CLIサブコマンド
+ * MCPツールと同じハンドラを InMemoryTransport 経由で呼び出し、
+ * スクリプトやcronからも同じMarkdown形式で読み書きできるようにする。
+ */
+import { parseArgs } from "node:util";
+import { readFile } from "node:fs/promises";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { createServer } from "./server.js";
+
+type OptionType = "string" | "number" | "boolean";
+
+interface CommandSpec {
+  usage: string;
+  /** 位置引数の名前（ツール引数名と同じ） */
+  positionals: string[];
+  /** フラグ名と型（ツール引数名と同じ） */
+  options?: Record<string, OptionType>;
+  /** 複数回指定できるフラグ */
+  multiple?: string[];
+  /** パース済みの引数をツール引数に変換する（独自の変換が必要な場合） */
+  build?: (args: Record<string, unknown>) => Promise<Record<string, unknown>>;
+}
+
+const COMMANDS: Record<string, CommandSpec> = {
+  read: {
+    usage: "read <page> [--depth 1-3]",
+    positionals: ["page"],
+    options: { depth: "number" },
+  },
+  write: {
+    usage: "write <file.md | -> [--mode create|update|auto] [--position replace|append|prepend|delete] [--after heading|block-id] [--section heading|block-id] [--overwrite] [--force] [--match property] [--dry-run] [--atomic]",
+    positionals: ["file"],
+    options: { mode: "string", position: "string", after: "string", section: "string", overwrite: "boolean", force: "boolean", match: "string", "dry-run": "boolean", atomic: "boolean" },
+    build: async ({ file, after, match, "dry-run": dryRun, ...rest }) => ({
+      ...rest,
+      ...(typeof match === "string" ? { match: { property: match } } : {}),
+      ...(dryRun === true ? { dryRun } : {}),
+      ...(typeof after === "string" ? { position: { after } } : {}),
+      markdown: await readInput(String(file)),
+    }),
+  },
+  search: {
+    usage: "search <query> [--filter page|database|all] [--limit n]",
+    positionals: ["query"],
+    options: { filter: "string", limit: "number" },
+  },
+  list: {
+    usage: 'list <target> [--filter "Status is Done"] [--sort "Due asc"] [--limit n]',
+    positionals: ["target"],
+    options: { filter: "string", sort: "string", limit: "number" },
+  },
+  update: {
+    usage: 'update <page> --set "Status=Done" [--set "Tags=[a, b]"] [--last-edited time] [--overwrite] [--dry-run]',
+    positionals: ["page"],
+    options: { set: "string", "last-edited": "string", overwrite: "boolean", "dry-run": "boolean" },
+    multiple: ["set"],
+    build: async ({ set, "last-edited": lastEdited, "dry-run": dryRun, ...rest }) => ({
+      ...rest,
+      ...(dryRun === true ? { dryRun } : {}),
+      ...(typeof lastEdited === "string" ? { lastEdited } : {}),
+      properties: parseAssignments((set as string[]) ?? []),
+    }),
+  },
+  delete: {
+    usage: "delete <page>",
+    positionals: ["page"],
+  },
+  move: {
+    usage: "move <page> <to>",
+    positionals: ["page", "to"],
+  },
+  schema: {
+    usage: "schema <database> [--action list|add|remove|rename] [--property name] [--type type] [--name new] [--options a,b]",
+    positionals: ["database"],
+    options: { action: "string", property: "string", type: "string", name: "string", options: "string" },
+    build: async ({ options, ...rest }) => ({
+      ...rest,
+      ...(typeof options === "string" ? { options: options.split(",").map((o) => o.trim()) } : {}),
+    }),
+  },
+  comment: {
+    usage: "comment <page> [--body text]",
+    positionals: ["page"],
+    options: { body: "string" },
+  },
+};
+
+/** 全コマンド共通のフラグ */
+const GLOBAL_OPTIONS = {
+  workspace: { type: "string" },
+  json: { type: "boolean", default: false },
+  help: { type: "boolean", short: "h", default: false },
+} as const;
+
+/** ツール呼び出しのタイムアウト（大きなバッチ書き込みを想定して長めに取る） */
+const CALL_TIMEOUT_MS = 30 * 60_000;
+
+/**
+ * argv[0] がCLIサブコマンドかどうか判定する。
+ */
+export function isCliCommand(name: string | undefined): boolean {
+  return name !== undefined && (Object.hasOwn(COMMANDS, name) || name === "help");
+}
+
+/**
+ * CLIサブコマンドを実行し、終了コードを返す。
+ * 成功時はツールのテキスト出力（--json なら structuredContent）を stdout に、
+ * エラー時はメッセージを stderr に書く。
+ */
+export async function runCli(argv: string[]): Promise<number> {
+  const [command, ...rest] = argv;
+  if (command === "help" || command === undefined || !Object.hasOwn(COMMANDS, command)) {
+    process.stdout.write(usage());
+    return command === "help" ? 0 : 1;
+  }
+
+  const spec = COMMANDS[command];
+  let toolArgs: Record<string, unknown>;
+  let json: boolean;
+  try {
+    const parsed = parseCommandArgs(spec, rest);
+    if (parsed.help) {
+      process.stdout.write(`Usage: better-mcp-notion ${spec.usage}\n`);
+      return 0;
+    }
+    json = parsed.json;
+    toolArgs = spec.build ? await spec.build(parsed.args) : parsed.args;
+  } catch (error) {
+    process.stderr.write(`${error instanceof Error ? error.message : String(error)}\nUsage: better-mcp-notion ${spec.usage}\n`);
+    return 2;
+  }
+
+  const server = createServer();
+  const client = new Client({ name: "better-mcp-notion-cli", version: "1.0.0" });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  try {
+    await server.connect(serverTransport);
+    await client.connect(clientTransport);
+
+    const result = await client.callTool({ name: command, arguments: toolArgs }, undefined, {
+      timeout: CALL_TIMEOUT_MS,
+    });
+    const text = (result.content as Array<{ type: string; text?: string }>)
+      .map((c) => c.text ?? "")
+      .join("\n");
+
+    if (result.isError) {
+      process.stderr.write(`${text}\n`);
+      if (json && result.structuredContent) {
+        process.stdout.write(`${JSON.stringify(result.structuredContent, null, 2)}\n`);
+      }
+      return 1;
+    }
+    process.stdout.write(
+      json ? `${JSON.stringify(result.structuredContent ?? {}, null, 2)}\n` : `${text}\n`
+    );
+    return 0;
+  } catch (error) {
+    process.stderr.write(`Error: ${error instanceof Error ? error.message : String(error)}\n`);
+    return 1;
+  } finally {
+    await client.close();
+    await server.close();
+  }
+}
+
+// ─── Argument parsing ───
+
+function parseCommandArgs(
+  spec: CommandSpec,
+  argv: string[]
+): { args: Record<string, unknown>; json: boolean; help: boolean } {
+  const options: Record<string, { type: "string" | "boolean"; multiple?: boolean }> = {};
+  for (const [name, type] of Object.entries(spec.options ?? {})) {
+    options[name] = {
+      type: type === "boolean" ? "boolean" : "string",
+      ...(spec.multiple?.includes(name) ? { multiple: true } : {}),
+    };
+  }
+
+  const { values, positionals } = parseArgs({
+    args: argv,
+    options: { ...options, ...GLOBAL_OPTIONS },
+    allowPositionals: true,
+    strict: true,
+  });
+
+  const { workspace, json, help, ...toolValues } = values;
+  if (help) return { args: {}, json: Boolean(json), help: true };
+
+  if (positionals.length < spec.positionals.length) {
+    throw new Error(`Missing argument: <${spec.positionals[positionals.length]}>`);
+  }
+  if (positionals.length > spec.positionals.length) {
+    throw new Error(`Unexpected argument: ${positionals[spec.positionals.length]}`);
+  }
+
+  const args: Record<string, unknown> = {};
+  spec.positionals.forEach((name, i) => {
+    args[name] = positionals[i];
+  });
+  for (const [name, value] of Object.entries(toolValues)) {
+    if (value === undefined) continue;
+    if (spec.options?.[name] === "number") {
+      const num = Number(value);
+      if (!Number.isFinite(num)) throw new Error(`--${name} must be a number`);
+      args[name] = num;
+    } else {
+      args[name] = value;
+    }
+  }
+  if (workspace) args.workspace = workspace;
+
+  return { args, json: Boolean(json), help: false };
+}
+
+/**
+ * "Key=Value" の並びをプロパティのマップにする。
+ * 値は true / 3 / [a, b] など frontmatter と同じ書き方ができる（parseSetValue 参照）。
+ */
+function parseAssignments(assignments: string[]): Record<string, unknown> {
+  if (assignments.length === 0) {
+    throw new Error('At least one --set "Property=Value" is required');
+  }
+  const properties: Record<string, unknown> = {};
+  for (const assignment of assignments) {
+    const eq = assignment.indexOf("=");
+    if (eq <= 0) throw new Error(`Invalid --set "${assignment}". Use "Property=Value".`);
+    const value = assignment.slice(eq + 1).trim();
+    properties[assignment.slice(0, eq).trim()] = value === "" ? null : parseSetValue(value);
+  }
+  return properties;
+}
+
+/**
+ * --set の値を解釈する。JSON・数値・真偽値・[a, b] 形式のリストだけを変換し、
+ * それ以外（"Fix bug #42" や "@home" など）は文字列のまま渡す。
+ */
+function parseSetValue(value: string): unknown {
+  if (/^[[{"]/.test(value)) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      // [a, b] 形式のリストか、ただの文字列
+    }
+  }
+  if (value.startsWith("[") && value.endsWith("]")) {
+    const inner = value.slice(1, -1).trim();
+    return inner === "" ? [] : inner.split(",").map((item) => parseScalar(item.trim()));
+  }
+  return parseScalar(value);
+}
+
+function parseScalar(value: string): unknown {
+  if (value === "true" || value === "false") return value === "true";
+  if (/^-?\d+(\.\d+)?([eE][-+]?\d+)?$/.test(value)) return Number(value);
+  return value;
+}
+
+/** ファイルパス、または "-" なら標準入力を読む */
+async function readInput(path: string): Promise<string> {
+  if (path !== "-") return readFile(path, "utf8");
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+function usage(): string {
+  const commands = Object.values(COMMANDS)
+    .map((spec) => `  better-mcp-notion ${spec.usage}`)
+    .join("\n");
+  return `Usage:
+  better-mcp-notion                      Start the MCP server (stdio)
+  better-mcp-notion --http [--port n]    Start the MCP server (Streamable HTTP)
+${commands}
+
+Options for all commands:
+  --workspace <name>   Use NOTION_API_KEY_<NAME> instead of NOTION_API_KEY
+  --json               Print structuredContent as JSON instead of Markdown
+`;
+}
@@ -0,0 +1,195 @@
+/**
+ * プロジェクト設定ファイル (.better-notion.json / .yaml)
+ * ページ・DBの短縮名（エイリアス）と、DBごとの list / write デフォルト値を定義する。
+ */
+import { existsSync, readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import yaml from "js-yaml";
+import { z } from "zod";
+import { NotionMcpError } from "./errors.js";
+import { extractId } from "./notion/helpers.js";
+import { currentWorkspace, normalizeWorkspaceName } from "./notion/workspace.js";
+
+const CONFIG_FILES = [".better-notion.json", ".better-notion.yaml", ".better-notion.yml"];
+
+const listDefaultsSchema = z.object({
+  filter: z.string().optional(),
+  sort: z.string().optional(),
+  columns: z.array(z.string()).optional(),
+  limit: z.number().int().min(1).max(200).optional(),
+});
+
+const writeDefaultsSchema = z.object({
+  icon: z.string().optional(),
+  cover: z.string().optional(),
+  properties: z.record(z.unknown()).optional(),
+});
+
+const databaseEntrySchema = z.union([
+  z.string(),
+  z.object({
+    id: z.string(),
+    list: listDefaultsSchema.optional(),
+    defaults: writeDefaultsSchema.optional(),
+  }),
+]);
+
+const sectionSchema = z.object({
+  pages: z.record(z.string()).default({}),
+  databases: z.record(databaseEntrySchema).default({}),
+});
+
+const permissionsSchema = z.object({
+  readOnly: z.boolean().optional(),
+  allow: z.array(z.string()).optional(),
+  deny: z.array(z.string()).optional(),
+});
+
+const configSchema = sectionSchema.extend({
+  workspaces: z.record(sectionSchema).default({}),
+  permissions: permissionsSchema.default({}),
+});
+
+export type ListDefaults = z.infer<typeof listDefaultsSchema>;
+export type WriteDefaults = z.infer<typeof writeDefaultsSchema>;
+export type PermissionsConfig = z.infer<typeof permissionsSchema>;
+
+/** 正規化済みのDB設定 */
+export interface DatabaseConfig {
+  id: string;
+  list?: ListDefaults;
+  defaults?: WriteDefaults;
+}
+
+/** 正規化済みの設定（1ワークスペース分） */
+export interface ConfigSection {
+  pages: Record<string, string>;
+  databases: Record<string, DatabaseConfig>;
+}
+
+export interface BetterNotionConfig extends ConfigSection {
+  workspaces: Record<string, ConfigSection>;
+  permissions: PermissionsConfig;
+}
+
+let cached: BetterNotionConfig | null = null;
+
+/**
+ * 設定ファイルを読み込む（初回のみ、以降はキャッシュ）。
+ * BETTER_NOTION_CONFIG が指定されていればそのパス、なければカレントディレクトリを探す。
+ * 設定ファイルがない場合は空の設定を返す。
+ */
+export function getConfig(): BetterNotionConfig {
+  if (cached) return cached;
+
+  const explicit = process.env.BETTER_NOTION_CONFIG;
+  const path = explicit
+    ? resolve(explicit)
+    : CONFIG_FILES.map((f) => resolve(f)).find((p) => existsSync(p));
+
+  if (!path) {
+    cached = { pages: {}, databases: {}, workspaces: {}, permissions: {} };
+    return cached;
+  }
+  if (!existsSync(path)) {
+    throw new NotionMcpError(`Config file not found: ${path}`, "CONFIG_INVALID");
+  }
+
+  cached = parseConfig(readFileSync(path, "utf8"), path.endsWith(".json") ? "json" : "yaml", path);
+  return cached;
+}
+
+/**
+ * 設定ファイルの内容をパース・検証する。
+ */
+export function parseConfig(
+  raw: string,
+  format: "json" | "yaml",
+  source = "config"
+): BetterNotionConfig {
+  let data: unknown;
+  try {
+    data = format === "json" ? JSON.parse(raw) : yaml.load(raw);
+  } catch (error) {
+    throw new NotionMcpError(
+      `Failed to parse ${source}: ${error instanceof Error ? error.message : String(error)}`,
+      "CONFIG_INVALID"
+    );
+  }
+
+  const parsed = configSchema.safeParse(data ?? {});
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map((i) => `  - ${i.path.join(".") || "(root)"}: ${i.message}`)
+      .join("\n");
+    throw new NotionMcpError(`Invalid ${source}:\n${issues}`, "CONFIG_INVALID");
+  }
+
+  const { workspaces, permissions, ...root } = parsed.data;
+  const normalizedWorkspaces: Record<string, ConfigSection> = {};
+  for (const [name, section] of Object.entries(workspaces)) {
+    normalizedWorkspaces[normalizeWorkspaceName(name)] = normalizeSection(section);
+  }
+  return { ...normalizeSection(root), workspaces: normalizedWorkspaces, permissions };
+}
+
+/**
+ * 現在のワークスペースに適用される設定を返す。
+ * トップレベルの定義に、workspaces.<name> の定義を上書きでマージする。
+ */
+export function getWorkspaceConfig(): ConfigSection {
+  const config = getConfig();
+  const override = config.workspaces[currentWorkspace()];
+  if (!override) return config;
+  return {
+    pages: { ...config.pages, ...override.pages },
+    databases: { ...config.databases, ...override.databases },
+  };
+}
+
+/**
+ * エイリアスを解決する。見つからなければ null。
+ */
+export function findAlias(
+  name: string,
+  type?: "page" | "database"
+): { id: string; object: "page" | "database" } | null {
+  const config = getWorkspaceConfig();
+  if (type !== "database" && Object.hasOwn(config.pages, name)) {
+    return { id: config.pages[name], object: "page" };
+  }
+  if (type !== "page" && Object.hasOwn(config.databases, name)) {
+    return { id: config.databases[name].id, object: "database" };
+  }
+  return null;
+}
+
+/**
+ * DB IDに対応する設定を返す（エイリアス経由でなくてもIDで引ける）。
+ */
+export function getDatabaseConfig(databaseId: string): DatabaseConfig | undefined {
+  const id = extractId(databaseId);
+  return Object.values(getWorkspaceConfig().databases).find((db) => db.id === id);
+}
+
+/** テスト用: キャッシュ済みの設定を破棄する */
+export function resetConfig(): void {
+  cached = null;
+}
+
+function normalizeSection(section: z.infer<typeof sectionSchema>): ConfigSection {
+  const pages: Record<string, string> = {};
+  for (const [alias, id] of Object.entries(section.pages)) {
+    pages[alias] = extractId(id);
+  }
+
+  const databases: Record<string, DatabaseConfig> = {};
+  for (const [alias, entry] of Object.entries(section.databases)) {
+    databases[alias] =
+      typeof entry === "string"
+        ? { id: extractId(entry) }
+        : { ...entry, id: extractId(entry.id) };
+  }
+
+  return { pages, databases };
+}
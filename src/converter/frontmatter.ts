@@ -10,6 +10,8 @@ import {
   type DatabasePropertySchema,
   type DocumentFrontmatter,
   type NotionPropertyType,
+  type PropertyChange,
+  type SkippedProperty,
 } from "./types.js";
 
 // ─────────────────────────────────────────────
@@ -76,6 +78,21 @@ export function pageToFrontmatter(page: PageObjectResponse): DocumentFrontmatter
   return fm;
 }
 
+/**
+ * ページの全プロパティを「プロパティ名 → 値」のマップに変換する。
+ * titleもプレーンテキストとして含める。
+ */
+export function extractPropertyValues(page: PageObjectResponse): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+  for (const [name, prop] of Object.entries(page.properties)) {
+    const value = prop.type === "title"
+      ? extractRichTextPlain(prop.title)
+      : extractPropertyValue(prop);
+    values[name] = value ?? null;
+  }
+  return values;
+}
+
 /**
  * 個別プロパティ値を抽出する。
  */
@@ -236,6 +253,7 @@ function buildPropertyValue(
       };
 
     case "number":
+      if (value === null || value === undefined || value === "") return { number: null };
       return { number: typeof value === "number" ? value : Number(value) };
 
     case "select":
@@ -304,6 +322,43 @@ function buildPropertyValue(
   }
 }
 
+/**
+ * frontmatterToProperties / buildPageProperties が黙って無視するプロパティとその理由を返す。
+ * dbSchema が無ければ（通常のページなら）title 以外はすべて無視される。
+ */
+export function findSkippedProperties(
+  fm: DocumentFrontmatter,
+  dbSchema: DatabasePropertySchema[] | undefined
+): SkippedProperty[] {
+  return Object.entries(fm.properties ?? {}).flatMap(([name, value]) => {
+    if (!dbSchema) return [{ name, reason: "not a database page; only the title can be set" }];
+    const schema = dbSchema.find((s) => s.name === name);
+    if (!schema) return [{ name, reason: "no such property in the database" }];
+    if (READONLY_PROPERTY_TYPES.includes(schema.type)) return [{ name, reason: `${schema.type} is read-only` }];
+    if (buildPropertyValue(schema.type, value) === undefined) {
+      return [{ name, reason: `${schema.type} properties cannot be written` }];
+    }
+    return [];
+  });
+}
+
+/**
+ * 書き込むプロパティについて、現在の値（extractPropertyValues の形式）と frontmatter の値を比べ、
+ * 変わるものだけを返す。
+ */
+export function diffProperties(
+  current: Record<string, unknown>,
+  fm: DocumentFrontmatter,
+  properties: PropertyInput
+): PropertyChange[] {
+  return Object.entries(properties).flatMap(([name, value]) => {
+    const after = "title" in (value as object) ? fm.title : fm.properties?.[name];
+    const before = current[name] ?? null;
+    // Date は ISO 文字列として比べる
+    return JSON.stringify(before) === JSON.stringify(after ?? null) ? [] : [{ name, before, after: after ?? null }];
+  });
+}
+
 /**
  * parentページの場合（DBスキーマなし）のシンプルなプロパティ構築。
  * titleのみセットする。
@@ -6,9 +6,69 @@ import { Client } from "@notionhq/client";
 import { NotionToMarkdown } from "notion-to-md";
 import matter from "gray-matter";
 import type { PageObjectResponse } from "@notionhq/client/build/src/api-endpoints.js";
+import type { MdBlock, ListBlockChildrenResponseResults } from "notion-to-md/build/types/index.js";
 import { pageToFrontmatter } from "./frontmatter.js";
 import type { DocumentFrontmatter } from "./types.js";
 
+/**
+ * Markdown に出力できず、プレースホルダーで表すブロック。
+ * 段組みや同期ブロックも中身を展開すると write で元に戻せないので、プレースホルダーにする。
+ */
+export const PLACEHOLDER_TYPES = [
+  "child_page",
+  "child_database",
+  "breadcrumb",
+  "table_of_contents",
+  "column_list",
+  "synced_block",
+  "template",
+  "unsupported",
+] as const;
+
+const PLACEHOLDER_TYPE_SET = new Set<string>(PLACEHOLDER_TYPES);
+
+const PLACEHOLDER_PATTERN = /^\[Unsupported: (\w+)\]$/;
+
+/** 未サポートブロックのプレースホルダー（"[Unsupported: child_database]"） */
+export function unsupportedPlaceholder(type: string): string {
+  return `[Unsupported: ${type}]`;
+}
+
+/** プレースホルダーの行なら、ブロックの種類を返す */
+export function parsePlaceholder(text: string): string | undefined {
+  return PLACEHOLDER_PATTERN.exec(text.trim())?.[1];
+}
+
+/**
+ * プレースホルダーにするブロック（子ページ・段組みなど）の子を取得しない NotionToMarkdown。
+ * parseChildPages: false だと child_page の行ごと省かれてしまうため、
+ * parseChildPages: true にしたうえで子の取得だけを止める。
+ * notion-to-md が読み飛ばす "unsupported" ブロックも、ここでプレースホルダーにする。
+ */
+class PlaceholderNotionToMarkdown extends NotionToMarkdown {
+  override async blocksToMarkdown(
+    blocks?: ListBlockChildrenResponseResults,
+    totalPage?: number | null,
+    mdBlocks: MdBlock[] = []
+  ): Promise<MdBlock[]> {
+    if (!blocks) return super.blocksToMarkdown(blocks, totalPage, mdBlocks);
+
+    let segment: ListBlockChildrenResponseResults = [];
+    for (const block of blocks) {
+      if (!("type" in block) || !PLACEHOLDER_TYPE_SET.has(block.type)) {
+        segment.push(block);
+      } else if (block.type === "unsupported") {
+        await super.blocksToMarkdown(segment, totalPage, mdBlocks);
+        segment = [];
+        mdBlocks.push({ type: "paragraph", blockId: block.id, parent: unsupportedPlaceholder(block.type), children: [] });
+      } else {
+        segment.push({ ...block, has_children: false });
+      }
+    }
+    return super.blocksToMarkdown(segment, totalPage, mdBlocks);
+  }
+}
+
 /**
  * Notionページをfrontmatter付きMarkdown文字列に変換する。
  */
@@ -16,28 +76,38 @@ export async function pageToMarkdown(
   client: Client,
   page: PageObjectResponse
 ): Promise<string> {
-  const n2m = new NotionToMarkdown({
+  const n2m = new PlaceholderNotionToMarkdown({
     notionClient: client,
     config: {
-      parseChildPages: false,
+      parseChildPages: true,
       separateChildPage: false,
     },
   });
 
-  // カスタムトランスフォーマー: 未サポートブロックのフォールバック
-  n2m.setCustomTransformer("breadcrumb", async () => "");
-  n2m.setCustomTransformer("table_of_contents", async () => "");
-  n2m.setCustomTransformer("child_database", async (block) => {
-    return `[Unsupported: child_database]`;
-  });
+  // カスタムトランスフォーマー: 未サポートブロックはプレースホルダーにする
+  // （write で置換するときに、このブロックを残す目印になる）
+  for (const type of PLACEHOLDER_TYPES) {
+    n2m.setCustomTransformer(type, async () => unsupportedPlaceholder(type));
+  }
 
   const mdBlocks = await n2m.pageToMarkdown(page.id);
-  const mdString = n2m.toMarkdownString(mdBlocks);
+  const mdString = n2m.toMarkdownString(showChildPages(mdBlocks));
 
   const frontmatter = pageToFrontmatter(page);
   return buildMarkdown(frontmatter, mdString.parent);
 }
 
+/**
+ * toMarkdownString は child_page の行を出力しないので、段落として扱わせる。
+ */
+function showChildPages(blocks: MdBlock[]): MdBlock[] {
+  return blocks.map((block) => ({
+    ...block,
+    type: block.type === "child_page" ? "paragraph" : block.type,
+    children: showChildPages(block.children),
+  }));
+}
+
 /**
  * frontmatterオブジェクトとMarkdown本文からfrontmatter付きMD文字列を生成する。
  */
@@ -17,19 +17,27 @@ export function parseMarkdown(markdown: string): ParsedDocument {
   const frontmatter: DocumentFrontmatter = {
     id: data.id,
     url: data.url,
+    key: data.key,
     title: data.title,
     icon: data.icon,
     cover: data.cover,
     parent: data.parent,
     database: data.database,
     properties: data.properties,
-    last_edited: data.last_edited,
-    created: data.created,
+    last_edited: toTimestamp(data.last_edited),
+    created: toTimestamp(data.created),
   };
 
   return { frontmatter, content };
 }
 
+/**
+ * YAML は引用符なしの日時を Date として読むので、文字列に戻す。
+ */
+function toTimestamp(value: unknown): string | undefined {
+  return value instanceof Date ? value.toISOString() : (value as string | undefined);
+}
+
 /**
  * Markdown本文をNotionブロック配列に変換する。
  */
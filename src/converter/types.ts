@@ -13,6 +13,8 @@ export interface DocumentFrontmatter {
   // 識別情報
   id?: string;
   url?: string;
+  /** id が無いとき、既存の行を探すプロパティ名（upsert） */
+  key?: string;
 
   // メタ情報
   title?: string;
@@ -83,3 +85,17 @@ export interface DatabasePropertySchema {
   name: string;
   type: NotionPropertyType;
 }
+
+/** dry run で表示するプロパティの変更 */
+export interface PropertyChange {
+  name: string;
+  /** 現在の値（新規作成なら null） */
+  before: unknown;
+  after: unknown;
+}
+
+/** 書き込まれずに無視されるプロパティ */
+export interface SkippedProperty {
+  name: string;
+  reason: string;
+}
@@ -38,11 +38,12 @@ export function formatError(error: unknown): string {
 }
 
 function getErrorHint(status?: number, code?: string): string | null {
-  if (status === 401) return "NOTION_API_KEY is invalid or expired.";
+  if (status === 401) return "The API key (NOTION_API_KEY, or NOTION_API_KEY_<NAME> for the selected workspace) is invalid or expired.";
   if (status === 403) return "The integration does not have access to this page/database. Add the integration via 'Connect to' in Notion.";
   if (status === 404) return "Page or database not found. Verify the ID and that the integration has access.";
   if (status === 409) return "Conflict: the page was modified by another process. Try again.";
-  if (status === 429) return "Rate limited. The request will be retried automatically, but if this persists, reduce the frequency of calls.";
+  if (status === 429) return "Rate limited by Notion even after automatic retries. Wait a minute before trying again, or split the work into smaller calls.";
+  if (status !== undefined && status >= 500) return "Notion returned a server error. Reads are retried automatically, but writes are not because they may already have been applied: check the page before trying again.";
   if (code === "validation_error") return "Invalid parameters. Check the property names and value formats.";
   return null;
 }
@@ -0,0 +1,208 @@
+/**
+ * Streamable HTTP トランスポート
+ * 1つのプロセスで複数クライアントのMCPセッションを捌く
+ */
+import { createServer as createHttpServer } from "node:http";
+import type { IncomingMessage, Server, ServerResponse } from "node:http";
+import { randomUUID, timingSafeEqual } from "node:crypto";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { createServer } from "./server.js";
+
+export interface HttpServerOptions {
+  port: number;
+  host: string;
+  /** 設定されている場合は `Authorization: Bearer <token>` を必須にする */
+  token?: string;
+  /** MCPエンドポイントのパス（デフォルト: /mcp） */
+  path?: string;
+  /** リクエストボディの上限（バイト、デフォルト: 4MB） */
+  maxBodyBytes?: number;
+  /** リクエストが途絶えたセッションを閉じるまでの時間（ミリ秒、デフォルト: 30分） */
+  sessionIdleMs?: number;
+}
+
+/** セッションごとのトランスポートと利用状況 */
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  /** 処理中のリクエスト数（開いている SSE ストリームを含む） */
+  active: number;
+  lastActive: number;
+}
+
+const SESSION_HEADER = "mcp-session-id";
+
+/** 大きなバッチ書き込みも収まる程度のボディ上限 */
+const DEFAULT_MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/** 切断されたクライアントのセッションを残し続けないための無操作時間 */
+const DEFAULT_SESSION_IDLE_MS = 30 * 60 * 1000;
+/** 無操作のセッションを探す間隔の上限 */
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+/** ボディが上限を超えた */
+class BodyTooLargeError extends Error {}
+
+/**
+ * MCP Streamable HTTPサーバーを起動する。
+ * セッションごとにトランスポートとMcpServerを生成し、セッションIDで振り分ける。
+ */
+export async function startHttpServer(options: HttpServerOptions): Promise<Server> {
+  const endpoint = options.path ?? "/mcp";
+  const maxBodyBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+  const sessionIdleMs = options.sessionIdleMs ?? DEFAULT_SESSION_IDLE_MS;
+  const sessions = new Map<string, Session>();
+
+  // レスポンスが閉じるまで（SSE ストリームなら切断まで）処理中として数える
+  const track = (session: Session, res: ServerResponse) => {
+    session.active++;
+    res.on("close", () => {
+      session.active--;
+      session.lastActive = Date.now();
+    });
+  };
+
+  const httpServer = createHttpServer(async (req, res) => {
+    try {
+      const url = new URL(req.url ?? "/", `http://${req.headers.host ?? "localhost"}`);
+      if (url.pathname !== endpoint) {
+        return sendJsonError(res, 404, "Not found");
+      }
+      if (!isAuthorized(req, options.token)) {
+        res.setHeader("WWW-Authenticate", 'Bearer realm="better-mcp-notion"');
+        return sendJsonError(res, 401, "Unauthorized");
+      }
+
+      const sessionId = req.headers[SESSION_HEADER];
+      const existing = typeof sessionId === "string" ? sessions.get(sessionId) : undefined;
+      if (existing) track(existing, res);
+
+      if (req.method === "POST") {
+        const body = await readJsonBody(req, maxBodyBytes);
+        if (existing) {
+          return await existing.transport.handleRequest(req, res, body);
+        }
+        if (sessionId !== undefined) {
+          return sendJsonError(res, 404, "Session not found");
+        }
+        if (!isInitializeRequest(body)) {
+          return sendJsonError(res, 400, "Bad Request: No valid session ID provided");
+        }
+
+        // 新規セッション: セッションごとにサーバーを作る
+        const transport = new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => randomUUID(),
+          onsessioninitialized: (id) => {
+            const session: Session = { transport, active: 0, lastActive: Date.now() };
+            sessions.set(id, session);
+            track(session, res);
+          },
+          onsessionclosed: (id) => {
+            sessions.delete(id);
+          },
+        });
+        transport.onclose = () => {
+          if (transport.sessionId) sessions.delete(transport.sessionId);
+        };
+        const server = createServer();
+        await server.connect(transport);
+        return await transport.handleRequest(req, res, body);
+      }
+
+      if (req.method === "GET" || req.method === "DELETE") {
+        if (!existing) {
+          return sendJsonError(res, sessionId === undefined ? 400 : 404, "Invalid or missing session ID");
+        }
+        return await existing.transport.handleRequest(req, res);
+      }
+
+      res.setHeader("Allow", "GET, POST, DELETE");
+      return sendJsonError(res, 405, "Method not allowed");
+    } catch (error) {
+      if (error instanceof BodyTooLargeError) {
+        // 残りのボディは読まずに接続を閉じる
+        res.setHeader("Connection", "close");
+        return sendJsonError(res, 413, `Payload too large: the request body exceeds ${maxBodyBytes} bytes`);
+      }
+      if (error instanceof SyntaxError) {
+        return sendJsonError(res, 400, "Parse error: invalid JSON body", -32700);
+      }
+      console.error("HTTP request error:", error);
+      if (!res.headersSent) {
+        sendJsonError(res, 500, "Internal server error", -32603);
+      }
+    }
+  });
+
+  // 無操作のまま idle 時間が過ぎたセッションを閉じる（DELETE せずに去ったクライアント向け）
+  const sweep = setInterval(() => {
+    const now = Date.now();
+    for (const [id, session] of sessions) {
+      if (session.active === 0 && now - session.lastActive >= sessionIdleMs) {
+        sessions.delete(id);
+        void session.transport.close();
+      }
+    }
+  }, Math.min(sessionIdleMs, SWEEP_INTERVAL_MS));
+  sweep.unref();
+
+  httpServer.on("close", () => {
+    clearInterval(sweep);
+    for (const { transport } of sessions.values()) {
+      void transport.close();
+    }
+    sessions.clear();
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+
+  return httpServer;
+}
+
+/**
+ * Bearerトークンを検証する。トークン未設定の場合は常に許可する。
+ */
+function isAuthorized(req: IncomingMessage, token?: string): boolean {
+  if (!token) return true;
+  const header = req.headers.authorization ?? "";
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  if (!match) return false;
+
+  const expected = Buffer.from(token);
+  const actual = Buffer.from(match[1].trim());
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * JSONボディを読む。maxBytes を超えたら BodyTooLargeError（メモリに溜め込まない）。
+ */
+async function readJsonBody(req: IncomingMessage, maxBytes: number): Promise<unknown> {
+  if (Number(req.headers["content-length"]) > maxBytes) throw new BodyTooLargeError();
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    const buffer = typeof chunk === "string" ? Buffer.from(chunk) : (chunk as Buffer);
+    size += buffer.length;
+    if (size > maxBytes) throw new BodyTooLargeError();
+    chunks.push(buffer);
+  }
+  const raw = Buffer.concat(chunks).toString("utf8");
+  return raw ? JSON.parse(raw) : undefined;
+}
+
+function sendJsonError(
+  res: ServerResponse,
+  status: number,
+  message: string,
+  code = -32000
+): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({ jsonrpc: "2.0", error: { code, message }, id: null }));
+}
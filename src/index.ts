@@ -1,13 +1,57 @@
 #!/usr/bin/env node
+import { parseArgs } from "node:util";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { createServer } from "./server.js";
+import { startHttpServer } from "./http.js";
+import { isCliCommand, runCli } from "./cli.js";
+
+const DEFAULT_HTTP_PORT = 3000;
+const DEFAULT_HTTP_HOST = "127.0.0.1";
 
 async function main() {
+  // サブコマンド指定時はCLIとして1回だけツールを実行する
+  const command = process.argv[2];
+  if (isCliCommand(command)) {
+    process.exitCode = await runCli(process.argv.slice(2));
+    return;
+  }
+
+  const { values } = parseArgs({
+    options: {
+      http: { type: "boolean", default: false },
+      port: { type: "string" },
+      host: { type: "string" },
+    },
+  });
+
+  if (values.http || process.env.MCP_HTTP === "true") {
+    await runHttp(values.port, values.host);
+    return;
+  }
+
   const server = createServer();
   const transport = new StdioServerTransport();
   await server.connect(transport);
 }
 
+async function runHttp(portArg?: string, hostArg?: string) {
+  const rawPort = portArg ?? process.env.MCP_HTTP_PORT ?? String(DEFAULT_HTTP_PORT);
+  // 空文字は Number() で 0（ランダムなポート）になるので、数字だけを受け付ける
+  const port = /^\d+$/.test(rawPort.trim()) ? Number(rawPort) : NaN;
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    throw new Error(`Invalid port: "${rawPort}". Use a number from 1 to 65535.`);
+  }
+  const host = hostArg ?? process.env.MCP_HTTP_HOST ?? DEFAULT_HTTP_HOST;
+  const token = process.env.MCP_AUTH_TOKEN || undefined;
+
+  if (!token) {
+    console.error("Warning: MCP_AUTH_TOKEN is not set. The HTTP endpoint accepts unauthenticated requests.");
+  }
+
+  await startHttpServer({ port, host, token });
+  console.error(`better-mcp-notion listening on http://${host}:${port}/mcp`);
+}
+
 main().catch((error) => {
   console.error("Fatal error:", error);
   process.exit(1);
@@ -0,0 +1,120 @@
+/**
+ * メタデータ（スキーマ・DB→データソースID・名前解決）のTTLキャッシュ
+ * キーは現在のワークスペースでスコープされるので、ワークスペース間で混ざらない。
+ */
+import { currentWorkspace } from "./workspace.js";
+
+/** デフォルトの有効期限（秒） */
+const DEFAULT_TTL_SECONDS = 300;
+
+interface Entry<V> {
+  value: V;
+  expiresAt: number;
+}
+
+/** 生成済みのキャッシュ（clearCache で一括破棄するため） */
+const registry: Array<MetadataCache<unknown>> = [];
+
+export class MetadataCache<V> {
+  private readonly entries = new Map<string, Entry<V>>();
+  /** 取得中の値（同じキーの同時取得は1回にまとめる） */
+  private readonly loading = new Map<string, Promise<V>>();
+
+  constructor(private readonly now: () => number = Date.now) {
+    registry.push(this as MetadataCache<unknown>);
+  }
+
+  /** 有効期限内の値を返す。なければ undefined */
+  get(key: string): V | undefined {
+    const scoped = scope(key);
+    const entry = this.entries.get(scoped);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= this.now()) {
+      this.entries.delete(scoped);
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  set(key: string, value: V): void {
+    const ttl = ttlMs();
+    if (ttl <= 0) return;
+    this.entries.set(scope(key), { value, expiresAt: this.now() + ttl });
+  }
+
+  delete(key: string): void {
+    this.entries.delete(scope(key));
+  }
+
+  /** 全ワークスペースの値を破棄する */
+  reset(): void {
+    this.entries.clear();
+    this.loading.clear();
+  }
+
+  /** 現在のワークスペースの値を破棄する。keep が true を返すキーは残す */
+  clearWorkspace(keep?: (key: string) => boolean): void {
+    const prefix = scope("");
+    for (const key of this.entries.keys()) {
+      if (key.startsWith(prefix) && !keep?.(key.slice(prefix.length))) this.entries.delete(key);
+    }
+    for (const key of this.loading.keys()) {
+      if (key.startsWith(prefix)) this.loading.delete(key);
+    }
+  }
+
+  /**
+   * キャッシュがあれば返し、なければ load の結果を保存して返す。
+   */
+  async getOrLoad(key: string, load: () => Promise<V>): Promise<V> {
+    const cached = this.get(key);
+    if (cached !== undefined) return cached;
+    return this.load(key, load);
+  }
+
+  /**
+   * キャッシュを見ずに load の結果を保存して返す。
+   * 同じキーを取得中なら、新たに取得せずその結果を待つ。
+   */
+  load(key: string, load: () => Promise<V>): Promise<V> {
+    const scoped = scope(key);
+    const inFlight = this.loading.get(scoped);
+    if (inFlight) return inFlight;
+
+    const promise = load()
+      .then((value) => {
+        this.set(key, value);
+        return value;
+      })
+      .finally(() => {
+        if (this.loading.get(scoped) === promise) this.loading.delete(scoped);
+      });
+    this.loading.set(scoped, promise);
+    return promise;
+  }
+}
+
+/**
+ * 現在のワークスペースのキャッシュをすべて破棄する（強制リフレッシュ）。
+ */
+export function clearCache(): void {
+  for (const cache of registry) cache.clearWorkspace();
+}
+
+/** テスト用: 全ワークスペースのキャッシュを破棄する */
+export function resetCache(): void {
+  for (const cache of registry) cache.reset();
+}
+
+/**
+ * NOTION_CACHE_TTL（秒）で有効期限を変えられる。0 でキャッシュ無効。
+ */
+function ttlMs(): number {
+  const raw = process.env.NOTION_CACHE_TTL;
+  const seconds = raw === undefined || raw === "" ? DEFAULT_TTL_SECONDS : Number(raw);
+  return Number.isFinite(seconds) ? seconds * 1000 : DEFAULT_TTL_SECONDS * 1000;
+}
+
+function scope(key: string): string {
+  return `${currentWorkspace()}\u0000${key}`;
+}
@@ -7,30 +7,128 @@ import type {
   PageObjectResponse,
   DataSourceObjectResponse,
   BlockObjectRequest,
+  BlockObjectResponse,
   SearchParameters,
   GetPageResponse,
+  UpdateBlockParameters,
 } from "@notionhq/client/build/src/api-endpoints.js";
 import { NotionMcpError } from "../errors.js";
+import { currentWorkspace, resolveApiKey } from "./workspace.js";
+import {
+  extractId,
+  isNotionId,
+  isNotionUrl,
+  splitPath,
+  blockTypeOf,
+  childrenOf,
+  withChildren,
+  countBlocks,
+} from "./helpers.js";
+import { findAlias } from "../config.js";
+import { throwIfCancelled, type OperationContext } from "../progress.js";
+import { RateLimiter, isIdempotentMethod, type RateLimitOptions } from "./rate-limit.js";
+import { MetadataCache, resetCache } from "./cache.js";
+import { matchTitles, normalizeTitle, type MatchCandidate } from "./match.js";
 
-let client: Client | null = null;
+type ClientOptions = NonNullable<ConstructorParameters<typeof Client>[0]>;
+type RequestParameters = Parameters<Client["request"]>[0];
 
 /**
- * Notion Clientのシングルトンを取得する。
+ * 全API呼び出し（notion-to-md 経由を含む）を RateLimiter に通すClient。
+ * エンドポイントのメソッドはすべて request() を経由する。
+ */
+class ThrottledClient extends Client {
+  constructor(
+    options: ClientOptions,
+    private readonly limiter: RateLimiter
+  ) {
+    super(options);
+  }
+
+  override request<ResponseBody extends object>(args: RequestParameters): Promise<ResponseBody> {
+    return this.limiter.schedule(() => super.request<ResponseBody>(args), {
+      idempotent: isIdempotentMethod(args.method),
+    });
+  }
+}
+
+/** ワークスペースごとのClientキャッシュ */
+const clients = new Map<string, Client>();
+
+/** Client生成時に上書きするオプション（テストで fetch / baseUrl を差し替える） */
+let clientOverrides: Partial<ClientOptions> = {};
+
+/** レート制御の設定（テストで待ち時間を短くする） */
+let rateLimitOverrides: Partial<RateLimitOptions> = {};
+
+/** データソースID → データソース（スキーマ） */
+const dataSourceCache = new MetadataCache<DataSourceObjectResponse>();
+/** データソースID → 取り直しても見つからなかったプロパティ名（TTLの間は取り直さない） */
+const missingPropertyCache = new MetadataCache<Set<string>>();
+/** データベースID → データベースの概要（タイトル・データソース一覧） */
+const databaseCache = new MetadataCache<DatabaseInfo>();
+/** 名前検索で走査する検索結果の件数（APIの1ページ上限） */
+const NAME_SEARCH_LIMIT = 100;
+/** エラーメッセージに載せる候補の最大数 */
+const MAX_CANDIDATES = 5;
+
+/** "type:名前" → 名前検索の結果 */
+const nameCache = new MetadataCache<ResolvedTarget>();
+
+/** ページ/DB指定の解決結果 */
+export interface ResolvedTarget {
+  id: string;
+  object: "page" | "database";
+  /** DBのデータソースまで指定された場合（"CRM / Leads" や検索でヒットしたデータソース） */
+  dataSourceId?: string;
+  /** 名前が完全一致せず、表記ゆれ・あいまい一致で解決した場合のタイトルと候補一覧 */
+  inexact?: { title: string; candidates: string };
+}
+
+/** データベースの概要 */
+export interface DatabaseInfo {
+  id: string;
+  title: string;
+  dataSources: Array<{ id: string; name: string }>;
+}
+
+/**
+ * 現在のワークスペースのNotion Clientを取得する。
+ * ワークスペースごとに1つだけ生成してキャッシュする。
+ * レート制限はAPIキー単位なので、RateLimiter もワークスペースごとに1つ持つ。
  */
 export function getClient(): Client {
+  const workspace = currentWorkspace();
+  let client = clients.get(workspace);
   if (!client) {
-    const auth = process.env.NOTION_API_KEY;
-    if (!auth) {
-      throw new NotionMcpError(
-        "NOTION_API_KEY environment variable is not set",
-        "AUTH_MISSING"
-      );
-    }
-    client = new Client({ auth, timeoutMs: 30_000 });
+    const auth = resolveApiKey(workspace);
+    client = new ThrottledClient(
+      { auth, timeoutMs: 30_000, ...clientOverrides },
+      new RateLimiter(rateLimitOverrides)
+    );
+    clients.set(workspace, client);
   }
   return client;
 }
 
+/**
+ * テスト用: Clientのオプション（fetch, baseUrl 等）を差し替える。
+ * キャッシュ済みのClientは破棄し、次の getClient() から新しいオプションで生成する。
+ */
+export function setClientOptions(options: Partial<ClientOptions>): void {
+  clientOverrides = options;
+  clients.clear();
+  resetCache();
+}
+
+/**
+ * テスト用: レート制御の設定を差し替える。キャッシュ済みのClientは破棄する。
+ */
+export function setRateLimitOptions(options: Partial<RateLimitOptions>): void {
+  rateLimitOverrides = options;
+  clients.clear();
+}
+
 /**
  * ページを取得する（フルオブジェクト）。
  */
@@ -48,22 +146,32 @@ export async function getPage(pageId: string): Promise<PageObjectResponse> {
 
 /**
  * ページを作成する。
+ * 本文が1リクエストの上限（100ブロック・ネスト2段）を超える場合は作成後に追加する。
+ * onCreated は本文の追加より前に呼ばれる（追加に失敗しても作成したページを後始末できるように）。
  */
 export async function createPage(params: {
-  parent: { page_id: string } | { database_id: string };
+  parent: { page_id: string } | { database_id: string } | { data_source_id: string };
   properties: Record<string, unknown>;
   children?: BlockObjectRequest[];
   icon?: { emoji: string } | { external: { url: string } };
   cover?: { external: { url: string } };
-}): Promise<PageObjectResponse> {
+}, onCreated?: (page: PageObjectResponse) => void): Promise<PageObjectResponse> {
   const notion = getClient();
-  const page = await notion.pages.create(params as Parameters<typeof notion.pages.create>[0]);
+  // 1リクエストに収まらない本文は、空のページを作ってから段階的に追加する
+  const { children, ...rest } = params;
+  const inline = children && fitsInOneRequest(children) ? children : undefined;
+  const page = await notion.pages.create({ ...rest, children: inline } as Parameters<typeof notion.pages.create>[0]);
   if (!isFullPage(page)) {
     throw new NotionMcpError(
       "Partial page response after creation.",
       "PARTIAL_RESPONSE"
     );
   }
+  invalidateAfterPageWrite(page);
+  onCreated?.(page);
+  if (children && !inline) {
+    await appendBlocks(page.id, children);
+  }
   return page;
 }
 
@@ -89,184 +197,387 @@ export async function updatePage(
       "PARTIAL_RESPONSE"
     );
   }
+  invalidateAfterPageWrite(page);
   return page;
 }
 
 /**
- * ページの全ブロックを削除する（全置換の前処理）。
- * レートリミット対策として3件ずつ並列削除。
+ * ブロックの内容を書き換える。子ブロックには触れない。
  */
-export async function deleteAllBlocks(pageId: string): Promise<void> {
-  const notion = getClient();
-  const blocks = await collectPaginatedAPI(
-    notion.blocks.children.list,
-    { block_id: pageId }
-  );
-  const CONCURRENCY = 3;
-  for (let i = 0; i < blocks.length; i += CONCURRENCY) {
-    const batch = blocks.slice(i, i + CONCURRENCY);
-    await Promise.all(
-      batch.map((block) => notion.blocks.delete({ block_id: block.id }))
-    );
-  }
+export async function updateBlock(blockId: string, block: BlockObjectRequest): Promise<void> {
+  const type = blockTypeOf(block);
+  const data = (withChildren(block, undefined) as Record<string, unknown>)[type];
+  await getClient().blocks.update({ block_id: blockId, [type]: data } as UpdateBlockParameters);
+}
+
+/**
+ * ブロックを削除する（子ブロックもまとめて削除される）。
+ */
+export async function deleteBlock(blockId: string): Promise<void> {
+  await getClient().blocks.delete({ block_id: blockId });
 }
 
 /**
  * ページにブロックを追加する。
- * Notion APIの制限（100ブロック/リクエスト）に対応してバッチ処理する。
+ * Notion APIの制限（100ブロック/配列・ネスト2段まで）に合わせて段階的に作成する。
+ * onCreated には作成した最上位ブロックのIDをリクエストごとに渡す（途中で失敗しても取り消せるように）。
  */
 export async function appendBlocks(
   pageId: string,
-  children: BlockObjectRequest[]
+  children: BlockObjectRequest[],
+  ctx?: OperationContext,
+  onCreated?: (blockIds: string[]) => void
 ): Promise<void> {
-  const notion = getClient();
-  const BATCH_SIZE = 100;
-  for (let i = 0; i < children.length; i += BATCH_SIZE) {
-    const batch = children.slice(i, i + BATCH_SIZE);
-    await notion.blocks.children.append({
-      block_id: pageId,
-      children: batch,
-    });
-  }
+  await writeBlockTree(pageId, children, undefined, ctx, { done: 0, total: countBlocks(children) }, onCreated);
 }
 
 /**
- * ページの先頭にブロックを挿入する。
- * Notion APIには「先頭に挿入」がないため、既存ブロックを全削除→新ブロック+旧ブロック再作成。
- * ただしAI側は追加分だけ生成すれば良い。
+ * ページの先頭にブロックを挿入する。既存ブロックには触れない。
  */
 export async function prependBlocks(
   pageId: string,
-  newChildren: BlockObjectRequest[]
+  newChildren: BlockObjectRequest[],
+  ctx?: OperationContext,
+  onCreated?: (blockIds: string[]) => void
 ): Promise<void> {
-  const notion = getClient();
-
-  // 既存ブロックを取得して内容を抽出
-  const existingBlocks = await collectPaginatedAPI(
-    notion.blocks.children.list,
-    { block_id: pageId }
-  );
+  await insertBlocks(pageId, newChildren, null, ctx, onCreated);
+}
 
-  // 既存ブロックを全削除
-  const CONCURRENCY = 3;
-  for (let i = 0; i < existingBlocks.length; i += CONCURRENCY) {
-    const batch = existingBlocks.slice(i, i + CONCURRENCY);
-    await Promise.all(
-      batch.map((block) => notion.blocks.delete({ block_id: block.id }))
-    );
-  }
+/**
+ * 指定したブロックの直後（after が null なら先頭）にブロックを挿入する。
+ * 100件を超える場合は、直前のバッチで作成した最後のブロックの後ろに続けて順序を保つ。
+ * 作成した最上位ブロックのIDを順に返す。
+ */
+export async function insertBlocks(
+  pageId: string,
+  children: BlockObjectRequest[],
+  after: string | null,
+  ctx?: OperationContext,
+  onCreated?: (blockIds: string[]) => void
+): Promise<string[]> {
+  return await writeBlockTree(pageId, children, after, ctx, { done: 0, total: countBlocks(children) }, onCreated);
+}
 
-  // 新しいブロック → 既存ブロック の順で再作成
-  // 既存ブロックはBlockObjectRequestに変換する必要がある
-  const existingAsRequests = existingBlocks
-    .filter((b) => "type" in b)
-    .map((b) => blockToRequest(b))
-    .filter((b): b is BlockObjectRequest => b !== null);
+// ─── Staged block writes ───
 
-  await appendBlocks(pageId, [...newChildren, ...existingAsRequests]);
-}
+/** 1つの children 配列に入れられるブロック数 */
+const MAX_CHILDREN_PER_REQUEST = 100;
+/** 1リクエストで送れるブロック数（ネストした子を含む） */
+const MAX_BLOCKS_PER_REQUEST = 1000;
 
 /**
- * 取得済みブロックをBlockObjectRequestに変換する。
- * 完全な変換は不可能だが、主要なブロック型をカバーする。
+ * ブロックを段階的に書き込む。
+ * 1段分の子はそのまま一緒に送り、それより深い子や100件を超える子は
+ * 親を作成した後にその親へ再帰的に追加する。
+ * after: undefined なら末尾、null なら先頭、ブロックIDならその直後。
+ * 作成した最上位ブロックのIDを順に返す。
  */
-function blockToRequest(block: Record<string, unknown>): BlockObjectRequest | null {
-  const type = block.type as string;
-  if (!type || !(type in block)) return null;
+async function writeBlockTree(
+  parentId: string,
+  blocks: BlockObjectRequest[],
+  after: string | null | undefined,
+  ctx: OperationContext | undefined,
+  progress: { done: number; total: number },
+  onCreated?: (blockIds: string[]) => void
+): Promise<string[]> {
+  const notion = getClient();
+  const created: string[] = [];
+  let anchor = after;
+  let i = 0;
 
-  const data = block[type] as Record<string, unknown>;
-  if (!data) return null;
+  while (i < blocks.length) {
+    throwIfCancelled(ctx, `wrote ${progress.done}/${progress.total} blocks`);
 
-  // テキスト系ブロック: rich_text を含む型
-  const textTypes = [
-    "paragraph", "heading_1", "heading_2", "heading_3",
-    "bulleted_list_item", "numbered_list_item", "quote",
-    "callout", "toggle",
-  ];
-  if (textTypes.includes(type)) {
-    const result: Record<string, unknown> = { [type]: { rich_text: data.rich_text } };
-    if (type === "callout" && data.icon) {
-      (result[type] as Record<string, unknown>).icon = data.icon;
+    const staged: Array<ReturnType<typeof stageBlock>> = [];
+    let size = 0;
+    while (i < blocks.length && staged.length < MAX_CHILDREN_PER_REQUEST) {
+      const next = stageBlock(blocks[i]);
+      if (staged.length > 0 && size + next.size > MAX_BLOCKS_PER_REQUEST) break;
+      staged.push(next);
+      size += next.size;
+      i++;
     }
-    return result as BlockObjectRequest;
-  }
 
-  // to_do
-  if (type === "to_do") {
-    return { to_do: { rich_text: data.rich_text, checked: data.checked } } as BlockObjectRequest;
-  }
+    const response = await notion.blocks.children.append({
+      block_id: parentId,
+      children: staged.map((s) => s.head),
+      ...(anchor === undefined
+        ? {}
+        : {
+            position:
+              anchor === null ? { type: "start" as const } : { type: "after_block" as const, after_block: { id: anchor } },
+          }),
+    });
+    progress.done += size;
+    const ids = response.results.map((block) => block.id);
+    created.push(...ids);
+    onCreated?.(ids);
+    ctx?.onProgress?.(`Wrote ${progress.done}/${progress.total} blocks`);
+    if (anchor !== undefined) anchor = response.results.at(-1)?.id ?? anchor;
 
-  // code
-  if (type === "code") {
-    return { code: { rich_text: data.rich_text, language: data.language } } as BlockObjectRequest;
+    // 作成した親に残りの子を追加する（レスポンスは送った順に並ぶ）
+    for (const [j, { deferred }] of staged.entries()) {
+      if (deferred.length === 0) continue;
+      await writeBlockTree(response.results[j].id, deferred, undefined, ctx, progress);
+    }
   }
+  return created;
+}
 
-  // divider, table_of_contents, breadcrumb
-  if (type === "divider") return { divider: {} } as BlockObjectRequest;
+/**
+ * ブロックを「今回送る部分」と「親の作成後に追加する子」に分ける。
+ * テーブルは行なしで作成できないため、先頭100行を一緒に送る。
+ */
+function stageBlock(block: BlockObjectRequest): {
+  head: BlockObjectRequest;
+  deferred: BlockObjectRequest[];
+  size: number;
+} {
+  const children = childrenOf(block);
+  if (children.length === 0) return { head: block, deferred: [], size: 1 };
 
-  // image, bookmark, embed 等は URL ベース
-  if (type === "image" && data.type === "external") {
-    return { image: { type: "external", external: (data as Record<string, unknown>).external } } as BlockObjectRequest;
+  if (blockTypeOf(block) === "table") {
+    const inline = children.slice(0, MAX_CHILDREN_PER_REQUEST);
+    return {
+      head: withChildren(block, inline),
+      deferred: children.slice(MAX_CHILDREN_PER_REQUEST),
+      size: 1 + inline.length,
+    };
   }
-  if (type === "bookmark") {
-    return { bookmark: { url: data.url } } as BlockObjectRequest;
+  if (children.length <= MAX_CHILDREN_PER_REQUEST && children.every((c) => childrenOf(c).length === 0)) {
+    return { head: block, deferred: [], size: 1 + children.length };
   }
+  return { head: withChildren(block, undefined), deferred: children, size: 1 };
+}
 
-  // 変換できないブロックはスキップ
-  return null;
+/** 段階的な書き込みをせずに1リクエストで送れるか */
+function fitsInOneRequest(blocks: BlockObjectRequest[]): boolean {
+  if (blocks.length > MAX_CHILDREN_PER_REQUEST) return false;
+  const staged = blocks.map(stageBlock);
+  return (
+    staged.every((s) => s.deferred.length === 0) &&
+    staged.reduce((sum, s) => sum + s.size, 0) <= MAX_BLOCKS_PER_REQUEST
+  );
+}
+
+/**
+ * ブロック直下の子ブロックをすべて取得する。
+ */
+export async function getChildBlocks(blockId: string): Promise<BlockObjectResponse[]> {
+  const notion = getClient();
+  const blocks = await collectPaginatedAPI(notion.blocks.children.list, { block_id: blockId });
+  return blocks.filter((block): block is BlockObjectResponse => "type" in block);
 }
 
 /**
  * データソースを取得する（DBスキーマ取得用）。
+ * 結果はTTLキャッシュする。refresh で強制的に取り直す。
+ * properties を指定すると、キャッシュにないプロパティ名が含まれる場合に取り直す
+ * （Notion側で列を追加した直後でも書き込みで無視されないように）。
+ * 取り直しても無かった名前（綴り間違いなど）は、TTLの間は再び取り直さない。
  */
 export async function getDataSource(
-  dataSourceId: string
+  dataSourceId: string,
+  options: { refresh?: boolean; properties?: string[] } = {}
 ): Promise<DataSourceObjectResponse> {
-  const notion = getClient();
-  const ds = await notion.dataSources.retrieve({
-    data_source_id: dataSourceId,
-  });
-  if (ds.object !== "data_source") {
-    throw new NotionMcpError(
-      "Partial data source response received.",
-      "PARTIAL_RESPONSE"
-    );
+  const names = options.properties ?? [];
+  const cached = options.refresh ? undefined : dataSourceCache.get(dataSourceId);
+  if (cached) {
+    const missing = missingPropertyCache.get(dataSourceId);
+    if (names.every((name) => name in cached.properties || missing?.has(name))) return cached;
   }
-  return ds as DataSourceObjectResponse;
+
+  const ds = await loadDataSource(dataSourceId);
+  const notFound = names.filter((name) => !(name in ds.properties));
+  if (notFound.length > 0) {
+    missingPropertyCache.set(dataSourceId, new Set([...(missingPropertyCache.get(dataSourceId) ?? []), ...notFound]));
+  }
+  return ds;
+}
+
+function loadDataSource(dataSourceId: string): Promise<DataSourceObjectResponse> {
+  // バッチの並列書き込みで同じDBを指すドキュメントは、取得中のスキーマを共有する
+  return dataSourceCache.load(dataSourceId, async () => {
+    const notion = getClient();
+    const ds = await notion.dataSources.retrieve({
+      data_source_id: dataSourceId,
+    });
+    if (ds.object !== "data_source") {
+      throw new NotionMcpError(
+        "Partial data source response received.",
+        "PARTIAL_RESPONSE"
+      );
+    }
+    return ds as DataSourceObjectResponse;
+  });
+}
+
+/**
+ * データベースのタイトルとデータソース一覧を取得する（TTLキャッシュ）。
+ */
+export async function getDatabaseInfo(databaseId: string): Promise<DatabaseInfo> {
+  return databaseCache.getOrLoad(databaseId, async () => {
+    const notion = getClient();
+    const db = await notion.databases.retrieve({ database_id: databaseId });
+    if (!("data_sources" in db) || !Array.isArray(db.data_sources) || db.data_sources.length === 0) {
+      throw new NotionMcpError(
+        `Database ${databaseId} has no data sources.`,
+        "NO_DATA_SOURCE"
+      );
+    }
+    return {
+      id: db.id,
+      title: "title" in db ? db.title.map((t) => t.plain_text).join("") : "",
+      dataSources: db.data_sources.map((ds) => ({ id: ds.id, name: ds.name })),
+    };
+  });
 }
 
 /**
- * データベースからデータソースIDを取得する。
+ * データベースのデータソースIDを取得する。
+ * dataSource（名前またはID）を指定するとその中から選ぶ。
+ * 省略時、データソースが複数あるDBでは取り違えを避けるため AMBIGUOUS にする。
  */
 export async function getDatabaseDataSourceId(
-  databaseId: string
+  databaseId: string,
+  dataSource?: string
 ): Promise<string> {
-  const notion = getClient();
-  const db = await notion.databases.retrieve({ database_id: databaseId });
-  if ("data_sources" in db && Array.isArray(db.data_sources) && db.data_sources.length > 0) {
-    return db.data_sources[0].id;
+  const db = await getDatabaseInfo(databaseId);
+  const label = db.title || databaseId;
+
+  if (dataSource !== undefined) {
+    if (isNotionId(dataSource)) {
+      const id = extractId(dataSource);
+      const found = db.dataSources.find((ds) => ds.id === id);
+      if (found) return found.id;
+    }
+    const { matches } = matchTitles(
+      dataSource,
+      db.dataSources.map((item) => ({ item, title: item.name }))
+    );
+    if (matches.length === 1) return matches[0].item.id;
+    throw new NotionMcpError(
+      `${matches.length > 1 ? "Multiple data sources match" : "No data source matches"} "${dataSource}" in database "${label}".\n${formatDataSources(db)}`,
+      matches.length > 1 ? "AMBIGUOUS" : "NOT_FOUND"
+    );
   }
+
+  if (db.dataSources.length === 1) return db.dataSources[0].id;
   throw new NotionMcpError(
-    `Database ${databaseId} has no data sources.`,
-    "NO_DATA_SOURCE"
+    `Database "${label}" has ${db.dataSources.length} data sources. Name one, e.g. "${label} / ${db.dataSources[0].name}", or pass a data source ID.\n${formatDataSources(db)}`,
+    "AMBIGUOUS"
   );
 }
 
+/**
+ * 解決済みのDB指定からデータベースIDとデータソースIDを決める。
+ * ID がデータソースIDだった場合（read の出力の database: など）も受け付ける。
+ */
+export async function dataSourceOf(
+  target: ResolvedTarget
+): Promise<{ databaseId: string; dataSourceId: string }> {
+  if (target.dataSourceId) {
+    return { databaseId: target.id, dataSourceId: target.dataSourceId };
+  }
+  try {
+    return { databaseId: target.id, dataSourceId: await getDatabaseDataSourceId(target.id) };
+  } catch (error) {
+    if (!isNotFound(error)) throw error;
+    const ds = await getDataSource(target.id).catch(() => {
+      throw error;
+    });
+    const parent = ds.parent as { database_id?: string };
+    return { databaseId: parent.database_id ?? target.id, dataSourceId: ds.id };
+  }
+}
+
+/**
+ * DBの指定（名前・パス・エイリアス・ID・"DB / データソース"）をデータソースまで解決する。
+ */
+export async function resolveDataSource(
+  input: string,
+  options: { exact?: boolean } = {}
+): Promise<{ databaseId: string; dataSourceId: string }> {
+  return dataSourceOf(await resolveTarget(input, "database", options));
+}
+
+function formatDataSources(db: DatabaseInfo): string {
+  return db.dataSources.map((ds) => `  - "${ds.name}": ${ds.id}`).join("\n");
+}
+
+function isNotFound(error: unknown): boolean {
+  return error instanceof Error && "status" in error && (error as { status: number }).status === 404;
+}
+
+/**
+ * データソースのプロパティ定義を変更する（追加・削除・リネーム）。
+ * キャッシュ済みのスキーマは破棄する。
+ */
+export async function updateDataSourceProperties(
+  dataSourceId: string,
+  properties: Record<string, unknown>
+): Promise<void> {
+  const notion = getClient();
+  try {
+    await notion.dataSources.update({
+      data_source_id: dataSourceId,
+      properties,
+    } as Parameters<typeof notion.dataSources.update>[0]);
+  } finally {
+    dataSourceCache.delete(dataSourceId);
+  }
+}
+
+/**
+ * ページ書き込み後にキャッシュを無効化する。
+ * タイトル変更・作成・アーカイブで名前解決の結果が変わるため名前キャッシュは破棄する。
+ * ただし DB 名の解決はページの作成・更新では変わらないので残す（バッチで同じDBに書き込むとき検索し直さない）。
+ * 新しい select / status の選択肢が自動追加された場合はスキーマも破棄する。
+ */
+function invalidateAfterPageWrite(page: PageObjectResponse): void {
+  const archived = page.archived || page.in_trash;
+  nameCache.clearWorkspace(archived ? undefined : (key) => key.startsWith("database:"));
+
+  if (page.parent.type !== "data_source_id") return;
+  const dataSourceId = page.parent.data_source_id;
+  const cached = dataSourceCache.get(dataSourceId);
+  if (!cached) return;
+
+  for (const [name, prop] of Object.entries(page.properties)) {
+    const values =
+      prop.type === "select" ? [prop.select?.name]
+      : prop.type === "status" ? [prop.status?.name]
+      : prop.type === "multi_select" ? prop.multi_select.map((o) => o.name)
+      : [];
+    const schema = cached.properties[name] as Record<string, unknown> | undefined;
+    const config = schema?.[prop.type] as { options?: Array<{ name: string }> } | undefined;
+    const known = new Set((config?.options ?? []).map((o) => o.name));
+    if (values.some((value) => value && !known.has(value))) {
+      dataSourceCache.delete(dataSourceId);
+      return;
+    }
+  }
+}
+
 /**
  * データソースをクエリする（DBレコード一覧取得）。
  */
-export async function queryDataSource(params: {
-  dataSourceId: string;
-  filter?: Record<string, unknown>;
-  sorts?: Array<{ property: string; direction: "ascending" | "descending" }>;
-  limit?: number;
-}): Promise<PageObjectResponse[]> {
+export async function queryDataSource(
+  params: {
+    dataSourceId: string;
+    filter?: Record<string, unknown>;
+    sorts?: Array<{ property: string; direction: "ascending" | "descending" }>;
+    limit?: number;
+  },
+  ctx?: OperationContext
+): Promise<PageObjectResponse[]> {
   const notion = getClient();
   const pages: PageObjectResponse[] = [];
   let cursor: string | undefined;
   const limit = params.limit ?? 50;
 
   while (pages.length < limit) {
+    throwIfCancelled(ctx, `fetched ${pages.length} records`);
     const pageSize = Math.min(100, limit - pages.length);
     const response = await notion.dataSources.query({
       data_source_id: params.dataSourceId,
@@ -283,6 +594,7 @@ export async function queryDataSource(params: {
     }
 
     if (!response.has_more || !response.next_cursor) break;
+    ctx?.onProgress?.(`Fetched ${pages.length} records`);
     cursor = response.next_cursor;
   }
 
@@ -292,7 +604,16 @@ export async function queryDataSource(params: {
 /** 検索結果の統一型 */
 export type SearchResult =
   | PageObjectResponse
-  | { object: "data_source"; id: string; title: string; url: string };
+  | {
+      object: "data_source";
+      id: string;
+      title: string;
+      url: string;
+      /** データソースが属するデータベース */
+      databaseId?: string;
+      /** データソースが属するデータベースの親 */
+      parent?: DataSourceObjectResponse["database_parent"];
+    };
 
 /**
  * ワークスペース検索
@@ -301,6 +622,8 @@ export async function search(params: {
   query: string;
   filter?: "page" | "database";
   limit?: number;
+  /** "last_edited": 最終編集日時の降順で並べる */
+  sort?: "last_edited";
 }): Promise<SearchResult[]> {
   const notion = getClient();
   const searchParams: SearchParameters = {
@@ -312,6 +635,9 @@ export async function search(params: {
   } else if (params.filter === "database") {
     searchParams.filter = { value: "data_source", property: "object" };
   }
+  if (params.sort === "last_edited") {
+    searchParams.sort = { timestamp: "last_edited_time", direction: "descending" };
+  }
 
   const response = await notion.search(searchParams);
   return response.results.map((result): SearchResult => {
@@ -320,12 +646,14 @@ export async function search(params: {
     }
     // DataSource result - extract basic info
     if ("title" in result && Array.isArray(result.title)) {
-      const ds = result as { object: "data_source"; id: string; title: Array<{ plain_text: string }>; url: string };
+      const ds = result as DataSourceObjectResponse;
       return {
         object: "data_source",
         id: ds.id,
         title: ds.title.map((t) => t.plain_text).join(""),
         url: ds.url,
+        databaseId: (ds.parent as { database_id?: string }).database_id,
+        parent: ds.database_parent,
       };
     }
     return {
@@ -352,6 +680,7 @@ export async function archivePage(pageId: string): Promise<PageObjectResponse> {
       "PARTIAL_RESPONSE"
     );
   }
+  invalidateAfterPageWrite(page);
   return page;
 }
 
@@ -378,6 +707,7 @@ export async function movePage(
       "PARTIAL_RESPONSE"
     );
   }
+  invalidateAfterPageWrite(page);
   return page;
 }
 
@@ -446,55 +776,323 @@ export async function detectObjectType(
 
 /**
  * 名前でページまたはDBを検索して単一の結果を返す。
- * 複数マッチした場合はエラーを出す。
+ * 複数マッチした場合はエラーを出す。解決結果はTTLキャッシュする。
  */
 export async function resolveByName(
   name: string,
   type?: "page" | "database"
-): Promise<{ id: string; object: "page" | "database" }> {
-  const results = await search({
-    query: name,
-    filter: type,
-    limit: 5,
-  });
+): Promise<ResolvedTarget> {
+  return nameCache.getOrLoad(`${type ?? "any"}:${name}`, () => searchByName(name, type));
+}
+
+async function searchByName(
+  name: string,
+  type?: "page" | "database"
+): Promise<ResolvedTarget> {
+  let results = await search({ query: name, filter: type, limit: NAME_SEARCH_LIMIT });
+  if (results.length === 0) {
+    // 表記ゆれで検索にかからない場合は、最も長い単語で候補を集め直す
+    const word = longestWord(name);
+    if (word) results = await search({ query: word, filter: type, limit: NAME_SEARCH_LIMIT });
+  }
+
+  const { tier, matches, ranked } = matchTitles(
+    name,
+    results.map((item) => ({ item, title: searchResultTitle(item) }))
+  );
+
+  if (matches.length === 1) {
+    const match = matches[0].item;
+    const inexact =
+      tier === "exact" ? undefined : { title: matches[0].title, candidates: await describeCandidates(ranked) };
+    if (match.object === "page") return { id: match.id, object: "page", inexact };
+    // 検索はデータソースを返すので、属するDBのIDに読み替える
+    return match.databaseId
+      ? { id: match.databaseId, object: "database", dataSourceId: match.id, inexact }
+      : { id: match.id, object: "database", inexact };
+  }
+
+  if (matches.length > 1) {
+    const kind = tier === "exact" ? "" : `${tier} `;
+    const list = await describeCandidates(matches);
+    throw new NotionMcpError(
+      `Multiple ${kind}matches found for "${name}":\n${list}\nUse ID to specify the exact target.`,
+      "AMBIGUOUS"
+    );
+  }
+
+  const suggestions = ranked.length > 0 ? `\nDid you mean:\n${await describeCandidates(ranked)}` : "";
+  throw new NotionMcpError(
+    `"${name}" not found. Check the name and try again.${suggestions}`,
+    "NOT_FOUND"
+  );
+}
+
+/**
+ * 候補を「タイトル (種別, 親): ID」の行にする。親のタイトルは候補ごとに取得する。
+ */
+async function describeCandidates(
+  candidates: Array<MatchCandidate<SearchResult>>
+): Promise<string> {
+  const shown = candidates.slice(0, MAX_CANDIDATES);
+  const lines: string[] = [];
+  for (const { item, title } of shown) {
+    const kind = item.object === "page" ? "page" : "database";
+    const parent = await describeParent(item.parent);
+    const id = item.object === "page" ? item.id : (item.databaseId ?? item.id);
+    lines.push(`  - "${title || "Untitled"}" (${kind}, in ${parent}): ${id}`);
+  }
+  if (candidates.length > shown.length) {
+    lines.push(`  - ...and ${candidates.length - shown.length} more`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * 親の表示名を返す。取得できない場合はIDを返す。
+ */
+async function describeParent(parent: SearchResult["parent"] | undefined): Promise<string> {
+  switch (parent?.type) {
+    case "workspace":
+      return "workspace";
+    case "page_id":
+      return getPage(parent.page_id).then(
+        (page) => `"${pageTitle(page) || "Untitled"}"`,
+        () => `page ${parent.page_id}`
+      );
+    case "data_source_id":
+      return getDataSource(parent.data_source_id).then(
+        (ds) => `"${ds.title.map((t) => t.plain_text).join("") || "Untitled"}"`,
+        () => `database ${parent.database_id}`
+      );
+    case "database_id":
+      return `database ${parent.database_id}`;
+    case "block_id":
+      return `block ${parent.block_id}`;
+    default:
+      return "unknown parent";
+  }
+}
+
+function searchResultTitle(result: SearchResult): string {
+  return result.object === "page" ? pageTitle(result) : result.title;
+}
+
+function pageTitle(page: PageObjectResponse): string {
+  const titleProp = Object.values(page.properties).find((p) => p.type === "title");
+  if (titleProp && titleProp.type === "title") {
+    return titleProp.title.map((t) => t.plain_text).join("");
+  }
+  return "";
+}
+
+/** 3文字以上の単語のうち最も長いもの。1単語しかない名前では undefined */
+function longestWord(name: string): string | undefined {
+  const words = name.trim().split(/\s+/).filter((w) => w.length >= 3);
+  if (words.length < 2) return undefined;
+  return words.reduce((a, b) => (b.length > a.length ? b : a));
+}
 
-  const matches = results.filter((r) => {
-    if ("properties" in r && r.object === "page") {
-      // PageObjectResponse
-      const titleProp = Object.values(r.properties).find(
-        (p) => p.type === "title"
+/**
+ * ページ/DBの指定（ID・URL・エイリアス・名前・パス）を解決する。
+ * ID/URL → 設定ファイルのエイリアス → パス → 名前検索 の順に試す。
+ * typeを省略した場合、IDならページかDBかを判定する。
+ * exact を指定すると、名前が完全一致しない場合は候補一覧を添えて NOT_FOUND にする（書き込み先の取り違え防止）。
+ */
+export async function resolveTarget(
+  input: string,
+  type?: "page" | "database",
+  options: { exact?: boolean } = {}
+): Promise<ResolvedTarget> {
+  const resolved = await resolveAny(input, type);
+  if (options.exact && resolved.inexact) {
+    throw new NotionMcpError(
+      `"${input.trim()}" has no exact match (closest: "${resolved.inexact.title}"). Did you mean:\n${resolved.inexact.candidates}\nUse the exact title or ID.`,
+      "NOT_FOUND"
+    );
+  }
+  return resolved;
+}
+
+async function resolveAny(
+  input: string,
+  type?: "page" | "database"
+): Promise<ResolvedTarget> {
+  if (isNotionId(input) || isNotionUrl(input)) {
+    return resolveSingle(input, type);
+  }
+
+  const alias = findAlias(input.trim(), type);
+  if (alias) return alias;
+
+  const segments = splitPath(input);
+  if (segments.length > 1) {
+    try {
+      return await nameCache.getOrLoad(`path:${type ?? "any"}:${segments.join("\u0000")}`, () =>
+        resolvePath(segments, type)
       );
-      if (titleProp && titleProp.type === "title") {
-        const title = titleProp.title.map((t) => t.plain_text).join("");
-        return title === name;
+    } catch (error) {
+      // エスケープせずにスラッシュを含むタイトル（"Q1/Q2 Review" など）も名前として試す。
+      // 先頭のセグメントが曖昧な場合（"Design / Architecture" の "Design" が複数ある）も同じ
+      const retry = error instanceof NotionMcpError && (error.code === "NOT_FOUND" || error.code === "AMBIGUOUS");
+      if (!retry || input.includes("\\")) {
+        throw error;
       }
+      return resolveByName(input.trim(), type).catch(() => {
+        throw error;
+      });
+    }
+  }
+
+  return resolveSingle(segments[0] ?? input, type);
+}
+
+/** パスを含まない指定（ID・URL・エイリアス・名前）を解決する */
+async function resolveSingle(
+  input: string,
+  type?: "page" | "database"
+): Promise<ResolvedTarget> {
+  if (isNotionId(input) || isNotionUrl(input)) {
+    const id = extractId(input);
+    if (type) return { id, object: type };
+    const detected = await detectObjectType(id);
+    return { id, object: detected.type };
+  }
+
+  const alias = findAlias(input, type);
+  if (alias) return alias;
+
+  return resolveByName(input, type);
+}
+
+/**
+ * パスを先頭から辿って解決する。
+ * 先頭のセグメントは ID・エイリアス・名前で、以降は子ページ/子DBのタイトルで照合する。
+ * DBの後ろに続く最後のセグメントはデータソース名として扱う。
+ */
+async function resolvePath(
+  segments: string[],
+  type?: "page" | "database"
+): Promise<ResolvedTarget> {
+  let current: ResolvedTarget;
+  try {
+    current = await resolveSingle(segments[0]);
+  } catch (error) {
+    const source =
+      segments.length === 2 && type !== "page" && error instanceof NotionMcpError && error.code === "NOT_FOUND"
+        ? await resolveDataSourceByTitles(segments[0], segments[1])
+        : undefined;
+    if (source) return source;
+    throw error;
+  }
+
+  for (let i = 1; i < segments.length; i++) {
+    const where = segments.slice(0, i).join("/");
+    if (current.object === "database" && i === segments.length - 1) {
+      // DBの次の最後のセグメントはデータソース名（"CRM / Leads"）
+      const dataSourceId = await getDatabaseDataSourceId(current.id, segments[i]);
+      current = { ...current, dataSourceId };
+      break;
     }
-    if ("title" in r && typeof r.title === "string") {
-      return r.title === name;
+    if (current.object !== "page") {
+      throw new NotionMcpError(
+        `"${where}" is a database. Paths can only descend through pages, optionally ending with a data source name.`,
+        "INVALID_PATH"
+      );
     }
-    return false;
-  });
 
-  if (matches.length === 0) {
+    const children = await listChildTargets(current.id);
+    const { tier, matches, ranked } = matchTitles(
+      segments[i],
+      children.map((item) => ({ item, title: item.title }))
+    );
+
+    if (matches.length > 1) {
+      const list = matches.map(({ item }) => `  - "${item.title}" (${item.object}): ${item.id}`).join("\n");
+      throw new NotionMcpError(
+        `Multiple children named "${segments[i]}" under "${where}":\n${list}\nUse ID to specify the exact target.`,
+        "AMBIGUOUS"
+      );
+    }
+    if (matches.length === 0) {
+      const names = (ranked.length > 0 ? ranked.map((c) => c.item) : children)
+        .slice(0, MAX_CANDIDATES)
+        .map((c) => `"${c.title}"`);
+      const hint = names.length > 0 ? ` ${ranked.length > 0 ? "Did you mean" : "Children"}: ${names.join(", ")}` : "";
+      throw new NotionMcpError(`"${segments[i]}" not found under "${where}".${hint}`, "NOT_FOUND");
+    }
+
+    const inexact =
+      tier === "exact"
+        ? current.inexact
+        : {
+            title: `${where}/${matches[0].title}`,
+            candidates: ranked
+              .slice(0, MAX_CANDIDATES)
+              .map(({ item }) => `  - "${item.title}" (${item.object}, in ${where}): ${item.id}`)
+              .join("\n"),
+          };
+    current = { id: matches[0].item.id, object: matches[0].item.object, inexact };
+  }
+
+  if (type && current.object !== type) {
     throw new NotionMcpError(
-      `"${name}" not found. Check the name and try again.`,
-      "NOT_FOUND"
+      `"${segments.join("/")}" is a ${current.object}, not a ${type}.`,
+      "INVALID_PATH"
     );
   }
+  return current;
+}
+
+/**
+ * "DB名 / データソース名" を、データソース名の検索結果から属するDBのタイトルで絞り込んで解決する。
+ * 複数データソースのDBは検索結果にDB自体のタイトルが出ないため、パスの先頭として見つからない。
+ */
+async function resolveDataSourceByTitles(
+  databaseName: string,
+  sourceName: string
+): Promise<ResolvedTarget | undefined> {
+  const results = await search({ query: sourceName, filter: "database", limit: NAME_SEARCH_LIMIT });
+  const matches: ResolvedTarget[] = [];
+  for (const result of results) {
+    if (result.object !== "data_source" || !result.databaseId) continue;
+    if (normalizeTitle(result.title) !== normalizeTitle(sourceName)) continue;
+    const info = await getDatabaseInfo(result.databaseId);
+    if (normalizeTitle(info.title) === normalizeTitle(databaseName)) {
+      matches.push({ id: info.id, object: "database", dataSourceId: result.id });
+    }
+  }
 
   if (matches.length > 1) {
-    const list = matches
-      .map((r) => `  - ${r.id}`)
-      .join("\n");
+    const list = matches.map((m) => `  - database ${m.id}, data source ${m.dataSourceId}`).join("\n");
     throw new NotionMcpError(
-      `Multiple matches found for "${name}":\n${list}\nUse ID to specify the exact target.`,
+      `Multiple data sources match "${databaseName} / ${sourceName}":\n${list}\nUse ID to specify the exact target.`,
       "AMBIGUOUS"
     );
   }
+  return matches[0];
+}
 
-  const match = matches[0];
-  return {
-    id: match.id,
-    object: match.object === "page" ? "page" : "database",
-  };
+interface ChildTarget {
+  id: string;
+  title: string;
+  object: "page" | "database";
+}
+
+/**
+ * ページ直下の子ページ・子DBをブロックのタイトルから列挙する（ページ本体は取得しない）。
+ */
+async function listChildTargets(pageId: string): Promise<ChildTarget[]> {
+  const notion = getClient();
+  const blocks = await collectPaginatedAPI(notion.blocks.children.list, { block_id: pageId });
+  return blocks.flatMap((block): ChildTarget[] => {
+    if (!("type" in block)) return [];
+    if (block.type === "child_page") {
+      return [{ id: block.id, title: block.child_page.title, object: "page" }];
+    }
+    if (block.type === "child_database") {
+      return [{ id: block.id, title: block.child_database.title, object: "database" }];
+    }
+    return [];
+  });
 }
@@ -0,0 +1,57 @@
+/**
+ * 楽観的排他制御
+ * read した時点の last_edited と現在の last_edited_time を比べ、
+ * その後に誰かが編集していれば書き込みを止める（他の人の編集を上書きしないため）。
+ */
+import type { PageObjectResponse, BlockObjectResponse } from "@notionhq/client/build/src/api-endpoints.js";
+import { getChildBlocks } from "./client.js";
+import { blockSummary } from "./helpers.js";
+import { NotionMcpError } from "../errors.js";
+
+/** エラーメッセージに載せる変更ブロックの最大数 */
+const MAX_CHANGED_BLOCKS = 5;
+
+/**
+ * lastEdited（read の出力の last_edited）より後にページが編集されていれば CONFLICT にする。
+ * lastEdited が無ければ何もしない。
+ */
+export async function assertNotEditedSince(
+  page: PageObjectResponse,
+  lastEdited: string | Date | undefined
+): Promise<void> {
+  if (lastEdited === undefined || lastEdited === null || lastEdited === "") return;
+
+  const readAt = lastEdited instanceof Date ? lastEdited : new Date(String(lastEdited));
+  if (Number.isNaN(readAt.getTime())) {
+    throw new NotionMcpError(
+      `Invalid last_edited "${String(lastEdited)}". Use the value from read (e.g. 2026-03-01T12:34:00.000Z).`,
+      "INVALID_LAST_EDITED"
+    );
+  }
+  if (new Date(page.last_edited_time).getTime() <= readAt.getTime()) return;
+
+  const changed = (await getChildBlocks(page.id)).filter(
+    (block) => new Date(block.last_edited_time).getTime() > readAt.getTime()
+  );
+  const details =
+    changed.length > 0
+      ? `Blocks changed since then:\n${changed.slice(0, MAX_CHANGED_BLOCKS).map((b) => `  - ${describeBlock(b)}`).join("\n")}` +
+        (changed.length > MAX_CHANGED_BLOCKS ? `\n  ... and ${changed.length - MAX_CHANGED_BLOCKS} more` : "")
+      : "No top-level blocks were added or edited, so the title, properties or nested blocks changed, or blocks were deleted.";
+
+  throw new NotionMcpError(
+    `Page ${page.id} was edited at ${page.last_edited_time} by ${editorOf(page)}, after it was read (last_edited: ${readAt.toISOString()}).\n` +
+      `${details}\n` +
+      "Read the page again and reapply your changes, or pass overwrite: true to write anyway.",
+    "CONFLICT"
+  );
+}
+
+function editorOf(page: PageObjectResponse): string {
+  const user = page.last_edited_by as { id: string; name?: string | null };
+  return user.name ? user.name : `user ${user.id}`;
+}
+
+function describeBlock(block: BlockObjectResponse): string {
+  return `${blockSummary(block)} (${block.id})`;
+}
@@ -0,0 +1,566 @@
+/**
+ * ブロック単位の差分更新
+ * 既存のブロックツリーと新しい本文を比較し、変わったブロックだけを更新・挿入・削除する。
+ * 変わらないブロックはIDが保たれるので、インラインコメントやブロックへのリンクが残る。
+ */
+import type {
+  BlockObjectRequest,
+  BlockObjectResponse,
+} from "@notionhq/client/build/src/api-endpoints.js";
+import { getChildBlocks, insertBlocks, updateBlock, deleteBlock } from "./client.js";
+import { blockTypeOf, blockSummary, blockText, childrenOf, countBlocks } from "./helpers.js";
+import { PLACEHOLDER_TYPES, parsePlaceholder, unsupportedPlaceholder } from "../converter/to-markdown.js";
+import { NotionMcpError } from "../errors.js";
+import type { OperationContext } from "../progress.js";
+
+/** 差分更新の結果（ブロック数） */
+export interface BlockChanges {
+  unchanged: number;
+  updated: number;
+  inserted: number;
+  deleted: number;
+}
+
+/** 比較する1ブロック分の情報 */
+export interface DiffItem {
+  type: string;
+  /** 子ブロックを除いた内容の正規化表現 */
+  signature: string;
+}
+
+export type DiffStep =
+  | { kind: "keep"; from: number; to: number }
+  | { kind: "update"; from: number; to: number }
+  | { kind: "insert"; to: number }
+  | { kind: "delete"; from: number };
+
+/** 同じ種類どうしなら削除せずに内容を書き換えられるブロック */
+const UPDATABLE_TYPES = new Set([
+  "paragraph",
+  "heading_1",
+  "heading_2",
+  "heading_3",
+  "bulleted_list_item",
+  "numbered_list_item",
+  "to_do",
+  "toggle",
+  "quote",
+  "callout",
+  "code",
+  "equation",
+  "table_row",
+]);
+
+/** Markdown で表現できないブロック。read ではプレースホルダーが出力される */
+const UNSUPPORTED_TYPES = new Set<string>(PLACEHOLDER_TYPES);
+
+/** API で作成できないブロック。削除すると元に戻せない */
+const NON_CREATABLE_TYPES = new Set(["link_preview"]);
+
+/** ファイルを持つブロック。アップロードしたファイルは Markdown の URL から作り直せない */
+const FILE_TYPES = new Set(["image", "file", "pdf", "video", "audio"]);
+
+/** 比較に使わないフィールド（子ブロックと、レスポンスにだけ含まれる値） */
+const IGNORED_KEYS = new Set(["object", "children", "plain_text", "href", "expiry_time"]);
+
+/** LCS を計算する上限（これを超える場合は前後の一致部分だけを使う） */
+const MAX_LCS_CELLS = 1_000_000;
+
+/** 差分更新の計画（1階層分） */
+interface LevelPlan {
+  parentId: string;
+  /** 範囲の先頭の直前にあるブロック（null なら親の先頭から） */
+  after: string | null;
+  current: BlockObjectResponse[];
+  next: BlockObjectRequest[];
+  steps: DiffStep[];
+  /** 残すブロックの子の計画（current のインデックス → 計画） */
+  nested: Map<number, LevelPlan>;
+}
+
+/**
+ * 親の子ブロックのうち、差分更新の対象にする連続した範囲（見出しのセクションなど）。
+ * 範囲外のブロックには触れない。
+ */
+export interface BlockScope {
+  blocks: BlockObjectResponse[];
+  /** 範囲の直前のブロック（null なら親の先頭） */
+  after: string | null;
+}
+
+/** ページ全体の差分更新の計画 */
+export interface BlockSyncPlan {
+  root: LevelPlan;
+  changes: BlockChanges;
+  /** 削除されることになる、Markdown で表現できないブロック（子孫を含む） */
+  unsupported: BlockObjectResponse[];
+  /** 削除されることになる、作り直せないブロック（unsupported と API で作成できないもの） */
+  unrestorable: BlockObjectResponse[];
+}
+
+/**
+ * parentId 直下のブロックを blocks の内容に揃えるための差分を、変更せずに計算する。
+ * 子ブロックは残すブロックの分だけ取得する。
+ * Markdown で表現できないブロック（サブページ・インラインDBなど）を削除することになる場合は、
+ * force を指定しない限りエラーにする。
+ */
+export async function planBlockSync(
+  parentId: string,
+  blocks: BlockObjectRequest[],
+  options: { force?: boolean; scope?: BlockScope } = {}
+): Promise<BlockSyncPlan> {
+  const changes: BlockChanges = { unchanged: 0, updated: 0, inserted: 0, deleted: 0 };
+  const unrestorable: BlockObjectResponse[] = [];
+  const current = options.scope?.blocks ?? (await getChildBlocks(parentId));
+  const root = await planLevel(parentId, options.scope?.after ?? null, current, blocks, changes, unrestorable);
+  const unsupported = unrestorable.filter(isUnsupportedBlock);
+
+  if (unsupported.length > 0 && !options.force) {
+    throw new NotionMcpError(
+      `This write would delete ${unsupported.length} block(s) that Markdown cannot represent:\n` +
+        unsupported.map((block) => `  - ${describeBlock(block)}`).join("\n") +
+        `\nKeep their "${unsupportedPlaceholder("<type>")}" lines in the Markdown, add content with position "append", "prepend" or { after }, or pass force: true to delete them.`,
+      "UNSUPPORTED_BLOCKS"
+    );
+  }
+  return { root, changes, unsupported, unrestorable };
+}
+
+/**
+ * planBlockSync で計算した差分を適用する。
+ */
+export async function applyBlockSync(plan: BlockSyncPlan, ctx?: OperationContext): Promise<BlockChanges> {
+  await applyLevel(plan.root, ctx);
+  return plan.changes;
+}
+
+async function planLevel(
+  parentId: string,
+  after: string | null,
+  current: BlockObjectResponse[],
+  next: BlockObjectRequest[],
+  changes: BlockChanges,
+  unrestorable: BlockObjectResponse[]
+): Promise<LevelPlan> {
+  const steps = planBlockDiff(current.map(toDiffItem), next.map(toDiffItem));
+  const nested = new Map<number, LevelPlan>();
+
+  for (const step of steps) {
+    if (step.kind === "insert") {
+      if (!isPlaceholder(next[step.to])) changes.inserted += countBlocks([next[step.to]]);
+    } else if (step.kind === "delete") {
+      changes.deleted += await collectDeleted(current[step.from], unrestorable);
+    } else {
+      const block = current[step.from];
+      if (step.kind === "update") changes.updated++;
+      else changes.unchanged++;
+      // 表現できないブロックの中身は比較しない（プレースホルダーには子がないため）
+      if (isUnsupportedBlock(block)) continue;
+      const children = block.has_children ? await getChildBlocks(block.id) : [];
+      nested.set(step.from, await planLevel(block.id, null, children, childrenOf(next[step.to]), changes, unrestorable));
+    }
+  }
+  return { parentId, after, current, next, steps, nested };
+}
+
+// ─── Restore ───
+
+/**
+ * 差分更新する範囲の書き込み前の状態。restoreBlockSync で元に戻す。
+ * ブロックはレスポンスをそのままリクエストの形にしたもの（色・リンク・メンションを保つ）で、
+ * Markdown で表現できないブロックはプレースホルダーにして、その位置に残す。
+ */
+export interface BlockSnapshot {
+  parentId: string;
+  /** 範囲の直前のブロック（null なら親の先頭から） */
+  after: string | null;
+  /** 範囲の直後のブロック（null なら親の末尾まで） */
+  until: string | null;
+  blocks: BlockObjectRequest[];
+}
+
+/**
+ * 作り直せないブロックを削除する計画なら、元に戻せないので NOT_RESTORABLE にする。
+ */
+export function assertRestorable(plan: BlockSyncPlan): void {
+  if (plan.unrestorable.length === 0) return;
+  throw new NotionMcpError(
+    `This write would delete ${plan.unrestorable.length} block(s) that cannot be recreated, so it could not be rolled back:\n` +
+      plan.unrestorable.map((block) => `  - ${describeBlock(block)}`).join("\n") +
+      "\nKeep these blocks, or write this page outside an atomic batch.",
+    "NOT_RESTORABLE"
+  );
+}
+
+/**
+ * planBlockSync の計画を適用する前に、対象の範囲を保存する（元に戻せない計画なら NOT_RESTORABLE）。
+ */
+export async function snapshotBlockSync(plan: BlockSyncPlan): Promise<BlockSnapshot> {
+  assertRestorable(plan);
+  const { parentId, after, current } = plan.root;
+  const siblings = await getChildBlocks(parentId);
+  const last = current.at(-1)?.id ?? after;
+  const until = last === null ? siblings[0] : siblings[siblings.findIndex((block) => block.id === last) + 1];
+  return { parentId, after, until: until?.id ?? null, blocks: await toRequestTree(current) };
+}
+
+/**
+ * snapshotBlockSync で保存した範囲を元に戻す。変わっていないブロックはそのまま残し、
+ * 書き換えたブロックは同じIDのまま元の内容に戻す。
+ */
+export async function restoreBlockSync(snapshot: BlockSnapshot): Promise<void> {
+  const siblings = await getChildBlocks(snapshot.parentId);
+  const start = snapshot.after === null ? 0 : siblings.findIndex((block) => block.id === snapshot.after) + 1;
+  const end = snapshot.until === null ? siblings.length : siblings.findIndex((block) => block.id === snapshot.until);
+  if (start === 0 && snapshot.after !== null || end === -1 || end < start) {
+    throw new NotionMcpError(
+      `The blocks around the restored range of ${snapshot.parentId} were moved or deleted.`,
+      "NOT_RESTORABLE"
+    );
+  }
+  const scope = { blocks: siblings.slice(start, end), after: snapshot.after };
+  await applyBlockSync(await planBlockSync(snapshot.parentId, snapshot.blocks, { scope }));
+}
+
+/** ブロックを子孫ごとリクエストの形にする */
+async function toRequestTree(blocks: BlockObjectResponse[]): Promise<BlockObjectRequest[]> {
+  const requests: BlockObjectRequest[] = [];
+  for (const block of blocks) {
+    if (UNSUPPORTED_TYPES.has(block.type)) {
+      requests.push({ paragraph: { rich_text: [{ text: { content: unsupportedPlaceholder(block.type) } }] } });
+      continue;
+    }
+    const children = block.has_children ? await toRequestTree(await getChildBlocks(block.id)) : [];
+    const data = toRequestValue((block as Record<string, unknown>)[block.type]) as Record<string, unknown>;
+    requests.push({
+      type: block.type,
+      [block.type]: children.length > 0 ? { ...data, children } : data,
+    } as unknown as BlockObjectRequest);
+  }
+  return requests;
+}
+
+/** レスポンスにだけある値（リッチテキストの plain_text・href、ユーザーの詳細）を落とす */
+function toRequestValue(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(toRequestValue);
+  if (value === null || typeof value !== "object") return value;
+
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    if (key === "plain_text" || key === "href") continue;
+    result[key] = key === "user" ? { id: (item as { id: string }).id } : toRequestValue(item);
+  }
+  return result;
+}
+
+// ─── Preview ───
+
+/**
+ * 差分更新の計画を dry run 用の行にする。変わらないブロックは、子が変わる場合だけ見出しとして出す。
+ * "+" は挿入、"-" は削除、"~" は書き換え。子ブロックは字下げする。
+ */
+export function describeBlockSync(plan: BlockSyncPlan): string[] {
+  return describeLevel(plan.root, "");
+}
+
+/** 挿入するブロック（子を含む）を dry run 用の行にする */
+export function describeBlocks(blocks: BlockObjectRequest[], indent = ""): string[] {
+  return blocks.flatMap((block) => [
+    `${indent}+ ${blockSummary(block)}`,
+    ...describeBlocks(childrenOf(block), `${indent}  `),
+  ]);
+}
+
+function describeLevel(plan: LevelPlan, indent: string): string[] {
+  return plan.steps.flatMap((step) => {
+    if (step.kind === "insert") {
+      return isPlaceholder(plan.next[step.to]) ? [] : describeBlocks([plan.next[step.to]], indent);
+    }
+    const block = plan.current[step.from];
+    if (step.kind === "delete") return [`${indent}- ${blockSummary(block)}`];
+
+    const nested = plan.nested.get(step.from);
+    const children = nested ? describeLevel(nested, `${indent}  `) : [];
+    if (step.kind === "update") {
+      return [`${indent}~ ${blockSummary(block)} → "${blockText(plan.next[step.to])}"`, ...children];
+    }
+    return children.length > 0 ? [`${indent}  ${blockSummary(block)}`, ...children] : [];
+  });
+}
+
+/**
+ * 削除するブロックを子孫ごと数え（挿入の数え方に揃える）、作り直せないものを集める。
+ * Markdown で表現できないブロックの中身は数えない。
+ */
+async function collectDeleted(block: BlockObjectResponse, unrestorable: BlockObjectResponse[]): Promise<number> {
+  if (isUnsupportedBlock(block)) {
+    unrestorable.push(block);
+    return 1;
+  }
+  if (NON_CREATABLE_TYPES.has(block.type)) unrestorable.push(block);
+  let count = 1;
+  if (block.has_children) {
+    for (const child of await getChildBlocks(block.id)) count += await collectDeleted(child, unrestorable);
+  }
+  return count;
+}
+
+async function applyLevel(plan: LevelPlan, ctx: OperationContext | undefined): Promise<void> {
+  const { parentId, current, next } = plan;
+
+  // 挿入はまとめて、直前に確定したブロックの後ろ（なければ範囲の先頭）に入れる
+  let last = plan.after;
+  let pending: BlockObjectRequest[] = [];
+  const flush = async () => {
+    if (pending.length === 0) return;
+    const created = await insertBlocks(parentId, pending, last, ctx);
+    last = created.at(-1) ?? last;
+    pending = [];
+  };
+
+  for (const step of plan.steps) {
+    if (step.kind === "delete") {
+      await deleteBlock(current[step.from].id);
+      ctx?.onProgress?.(`Deleted block ${current[step.from].id}`);
+    } else if (step.kind === "insert") {
+      // 対応するブロックのないプレースホルダーは書き込まない
+      if (!isPlaceholder(next[step.to])) pending.push(next[step.to]);
+    } else {
+      await flush();
+      const block = current[step.from];
+      if (step.kind === "update") {
+        await updateBlock(block.id, next[step.to]);
+        ctx?.onProgress?.(`Updated block ${block.id}`);
+      }
+      last = block.id;
+      const nested = plan.nested.get(step.from);
+      if (nested) await applyLevel(nested, ctx);
+    }
+  }
+  await flush();
+}
+
+function describeBlock(block: BlockObjectResponse): string {
+  const title =
+    block.type === "child_page" ? block.child_page.title
+    : block.type === "child_database" ? block.child_database.title
+    : undefined;
+  return title ? `${block.type} "${title}" (${block.id})` : `${block.type} (${block.id})`;
+}
+
+/**
+ * 2つのブロック列の差分を、新しい並び順に沿った手順として返す。
+ * 内容が同じブロックは最長共通部分列で対応づけ、残りは同じ種類どうしを前から順に
+ * 対応づけて更新する。対応しないものは削除・挿入になる。
+ */
+export function planBlockDiff(current: DiffItem[], next: DiffItem[]): DiffStep[] {
+  const matches = matchUnchanged(current, next);
+  const steps: DiffStep[] = [];
+  let i = 0;
+  let j = 0;
+  for (const [from, to] of [...matches, [current.length, next.length] as const]) {
+    steps.push(...pairChanged(current, next, i, from, j, to));
+    if (from < current.length) steps.push({ kind: "keep", from, to });
+    i = from + 1;
+    j = to + 1;
+  }
+  return steps;
+}
+
+/** 内容が同じブロックの対応（[current, next] のインデックス）を順に返す */
+function matchUnchanged(current: DiffItem[], next: DiffItem[]): Array<readonly [number, number]> {
+  let head = 0;
+  while (head < current.length && head < next.length && current[head].signature === next[head].signature) head++;
+  let tail = 0;
+  while (
+    tail < current.length - head &&
+    tail < next.length - head &&
+    current[current.length - 1 - tail].signature === next[next.length - 1 - tail].signature
+  ) {
+    tail++;
+  }
+
+  const pairs: Array<readonly [number, number]> = [];
+  for (let k = 0; k < head; k++) pairs.push([k, k]);
+  pairs.push(...longestCommonSubsequence(current, next, head, current.length - tail, head, next.length - tail));
+  for (let k = tail; k > 0; k--) pairs.push([current.length - k, next.length - k]);
+  return pairs;
+}
+
+function longestCommonSubsequence(
+  current: DiffItem[],
+  next: DiffItem[],
+  startA: number,
+  endA: number,
+  startB: number,
+  endB: number
+): Array<readonly [number, number]> {
+  const n = endA - startA;
+  const m = endB - startB;
+  if (n === 0 || m === 0 || n * m > MAX_LCS_CELLS) return [];
+
+  // lengths[a][b] = current[startA + a..] と next[startB + b..] の LCS 長
+  const lengths = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+  for (let a = n - 1; a >= 0; a--) {
+    for (let b = m - 1; b >= 0; b--) {
+      lengths[a][b] =
+        current[startA + a].signature === next[startB + b].signature
+          ? lengths[a + 1][b + 1] + 1
+          : Math.max(lengths[a + 1][b], lengths[a][b + 1]);
+    }
+  }
+
+  const pairs: Array<readonly [number, number]> = [];
+  let a = 0;
+  let b = 0;
+  while (a < n && b < m) {
+    if (current[startA + a].signature === next[startB + b].signature) {
+      pairs.push([startA + a, startB + b]);
+      a++;
+      b++;
+    } else if (lengths[a + 1][b] >= lengths[a][b + 1]) {
+      a++;
+    } else {
+      b++;
+    }
+  }
+  return pairs;
+}
+
+/** 一致しなかった区間のブロックを、更新・削除・挿入に振り分ける */
+function pairChanged(
+  current: DiffItem[],
+  next: DiffItem[],
+  startA: number,
+  endA: number,
+  startB: number,
+  endB: number
+): DiffStep[] {
+  const steps: DiffStep[] = [];
+  let a = startA;
+  for (let b = startB; b < endB; b++) {
+    let found = a;
+    while (found < endA && !canUpdate(current[found], next[b])) found++;
+    if (found === endA) {
+      steps.push({ kind: "insert", to: b });
+      continue;
+    }
+    for (; a < found; a++) steps.push({ kind: "delete", from: a });
+    steps.push({ kind: "update", from: found, to: b });
+    a = found + 1;
+  }
+  for (; a < endA; a++) steps.push({ kind: "delete", from: a });
+  return steps;
+}
+
+function canUpdate(current: DiffItem, next: DiffItem): boolean {
+  return current.type === next.type && UPDATABLE_TYPES.has(next.type);
+}
+
+// ─── Signatures ───
+
+function toDiffItem(block: BlockObjectRequest | BlockObjectResponse): DiffItem {
+  const type = placeholderType(block) ?? blockTypeOf(block as BlockObjectRequest);
+  return { type, signature: blockSignature(block) };
+}
+
+/**
+ * ブロックの内容（子ブロックを除く）を比較用の文字列にする。
+ * リクエストとレスポンスの表記の違い（既定値の省略、リッチテキストの分割など）は吸収する。
+ * Markdown で表現できないブロックは、read が出力するプレースホルダーの段落と一致する。
+ */
+export function blockSignature(block: BlockObjectRequest | BlockObjectResponse): string {
+  const type = blockTypeOf(block as BlockObjectRequest);
+  const placeholder = placeholderType(block) ?? (UNSUPPORTED_TYPES.has(type) ? type : undefined);
+  if (placeholder) return JSON.stringify(["placeholder", placeholder]);
+
+  const data = (block as Record<string, unknown>)[type] as Record<string, unknown> | undefined;
+  if (FILE_TYPES.has(type) && data) {
+    // 署名付きURLのクエリは読むたびに変わるので、ファイルの場所だけで比べる
+    const file = (data.external ?? data.file) as { url?: string } | undefined;
+    return JSON.stringify([type, canonicalize({ caption: data.caption, url: file?.url?.split("?")[0] })]);
+  }
+  return JSON.stringify([type, canonicalize(data)]);
+}
+
+/**
+ * Markdown で表現できないブロックか。
+ * アップロードしたファイル（type が external 以外）も含む。
+ */
+export function isUnsupportedBlock(block: BlockObjectResponse): boolean {
+  if (UNSUPPORTED_TYPES.has(block.type)) return true;
+  const data = (block as Record<string, unknown>)[block.type] as { type?: string } | undefined;
+  return FILE_TYPES.has(block.type) && data?.type !== "external";
+}
+
+/** プレースホルダーの段落なら、元のブロックの種類を返す */
+function placeholderType(block: BlockObjectRequest | BlockObjectResponse): string | undefined {
+  if (blockTypeOf(block as BlockObjectRequest) !== "paragraph") return undefined;
+  const richText = (block as { paragraph: { rich_text?: Array<{ text?: { content?: string } }> } }).paragraph.rich_text ?? [];
+  return parsePlaceholder(richText.map((t) => t.text?.content ?? "").join(""));
+}
+
+function isPlaceholder(block: BlockObjectRequest): boolean {
+  return placeholderType(block) !== undefined;
+}
+
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(canonicalize);
+  if (value === null || typeof value !== "object") return value;
+
+  const result: Record<string, unknown> = {};
+  for (const key of Object.keys(value).sort()) {
+    const item = (value as Record<string, unknown>)[key];
+    if (IGNORED_KEYS.has(key) || isDefault(item)) continue;
+    if (key === "rich_text" || key === "caption") {
+      result[key] = canonicalRichText(item as Array<Record<string, unknown>>);
+    } else if (key === "cells") {
+      result[key] = (item as Array<Array<Record<string, unknown>>>).map(canonicalRichText);
+    } else {
+      const canonical = canonicalize(item);
+      // 既定値だけのオブジェクト（書式なしの annotations など）は省略と同じ扱い
+      if (isEmptyObject(canonical)) continue;
+      result[key] = canonical;
+    }
+  }
+  return result;
+}
+
+function isEmptyObject(value: unknown): boolean {
+  return typeof value === "object" && value !== null && !Array.isArray(value) && Object.keys(value).length === 0;
+}
+
+/** 既定値（省略した場合と同じ意味になる値） */
+function isDefault(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    value === false ||
+    value === "default" ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+/**
+ * リッチテキストを [書式, テキスト] の並びにする。
+ * 同じ書式のテキストが続く場合は連結する（2000文字ごとの分割などで差が出ないように）。
+ */
+function canonicalRichText(items: Array<Record<string, unknown>>): Array<[string, string]> {
+  const runs: Array<[string, string]> = [];
+  for (const item of items) {
+    const text = item.text as { content?: string; link?: { url?: string } | null } | undefined;
+    if (!text) {
+      runs.push([JSON.stringify(canonicalize(item)), ""]);
+      continue;
+    }
+    const style = JSON.stringify(canonicalize({ annotations: item.annotations, link: text.link?.url }));
+    const content = text.content ?? "";
+    const last = runs.at(-1);
+    if (last && last[0] === style) {
+      last[1] += content;
+    } else {
+      runs.push([style, content]);
+    }
+  }
+  return runs;
+}
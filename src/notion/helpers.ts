@@ -1,6 +1,7 @@
 /**
  * Notion URL→ID変換、UUID正規化等のユーティリティ
  */
+import type { BlockObjectRequest, BlockObjectResponse } from "@notionhq/client/build/src/api-endpoints.js";
 
 const NOTION_URL_PATTERN =
   /(?:https?:\/\/)?(?:[^/]+\.)?notion\.(?:so|site)\/(?:[^/]+\/)?(?:[^?#]*-)?([a-f0-9]{32})(?:[?#].*)?$/i;
@@ -65,3 +66,59 @@ export function isNotionId(input: string): boolean {
 export function isNotionUrl(input: string): boolean {
   return NOTION_URL_PATTERN.test(input.trim());
 }
+
+/**
+ * "Projects/Alpha/Meeting Notes" 形式のパスを区切る。
+ * タイトル中のスラッシュは "\/" でエスケープする。空のセグメントは無視する。
+ */
+export function splitPath(input: string): string[] {
+  return input
+    .split(/(?<!\\)\//)
+    .map((segment) => segment.replace(/\\\//g, "/").trim())
+    .filter((segment) => segment.length > 0);
+}
+
+/**
+ * ブロックの種類（"paragraph" など）を返す。type を省略したリクエストにも対応する。
+ */
+export function blockTypeOf(block: BlockObjectRequest): string {
+  const record = block as Record<string, unknown>;
+  return typeof record.type === "string" ? record.type : Object.keys(record).find((k) => k !== "object") ?? "";
+}
+
+/** ブロックリクエストの子ブロック */
+export function childrenOf(block: BlockObjectRequest): BlockObjectRequest[] {
+  const data = (block as Record<string, unknown>)[blockTypeOf(block)] as { children?: BlockObjectRequest[] } | undefined;
+  return data?.children ?? [];
+}
+
+/** 子ブロックを差し替えた（undefined なら外した）ブロックリクエストを返す */
+export function withChildren(block: BlockObjectRequest, children: BlockObjectRequest[] | undefined): BlockObjectRequest {
+  const type = blockTypeOf(block);
+  const data = { ...((block as Record<string, unknown>)[type] as Record<string, unknown>) };
+  delete data.children;
+  return { ...block, [type]: children ? { ...data, children } : data } as BlockObjectRequest;
+}
+
+/** 子孫を含めたブロック数 */
+export function countBlocks(blocks: BlockObjectRequest[]): number {
+  return blocks.reduce((sum, block) => sum + 1 + countBlocks(childrenOf(block)), 0);
+}
+
+/**
+ * ブロックのテキスト（rich_text か title）。リクエストには plain_text が無いので text.content も見る。
+ */
+export function blockText(block: BlockObjectRequest | BlockObjectResponse): string {
+  const data = (block as Record<string, unknown>)[blockTypeOf(block as BlockObjectRequest)] as
+    | { rich_text?: Array<{ plain_text?: string; text?: { content: string } }>; title?: string }
+    | undefined;
+  return data?.rich_text?.map((t) => t.plain_text ?? t.text?.content ?? "").join("") ?? data?.title ?? "";
+}
+
+/** メッセージ用のブロックの要約（`paragraph "先頭60文字"`） */
+export function blockSummary(block: BlockObjectRequest | BlockObjectResponse): string {
+  const type = blockTypeOf(block as BlockObjectRequest);
+  const text = blockText(block);
+  const preview = text.length > 60 ? `${text.slice(0, 60)}…` : text;
+  return preview ? `${type} "${preview}"` : type;
+}
@@ -0,0 +1,111 @@
+/**
+ * タイトルの名前マッチング
+ * 完全一致 → 正規化一致（大文字小文字・空白・絵文字を無視） → あいまい一致 の順に判定する。
+ */
+
+export type MatchTier = "exact" | "normalized" | "fuzzy";
+
+export interface MatchCandidate<T> {
+  item: T;
+  title: string;
+  /** 0〜1 の類似度（1 が完全一致） */
+  score: number;
+  tier?: MatchTier;
+}
+
+export interface MatchResult<T> {
+  /** 最初にヒットした段階。どの段階でもヒットしなければ undefined */
+  tier?: MatchTier;
+  /** その段階でヒットした候補（2件以上なら曖昧） */
+  matches: Array<MatchCandidate<T>>;
+  /** 類似度の高い順に並べた候補（"did you mean" 用） */
+  ranked: Array<MatchCandidate<T>>;
+}
+
+/** あいまい一致として採用する最低類似度 */
+const FUZZY_THRESHOLD = 0.8;
+/** "did you mean" に載せる最低類似度 */
+const SUGGEST_THRESHOLD = 0.4;
+
+/**
+ * 比較用にタイトルを正規化する。
+ * NFKC・小文字化・絵文字と異体字セレクタの除去・空白の圧縮を行う。
+ */
+export function normalizeTitle(title: string): string {
+  return title
+    .normalize("NFKC")
+    .replace(/[\p{Extended_Pictographic}\u{FE0F}\u{200D}]/gu, "")
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * 名前と候補タイトルの類似度を返す。
+ * 編集距離の比率と、部分一致（片方がもう片方を含む）の長さ比のうち高い方。
+ */
+export function similarity(name: string, title: string): number {
+  const a = normalizeTitle(name);
+  const b = normalizeTitle(title);
+  if (a === b) return 1;
+  if (!a || !b) return 0;
+
+  const lengthA = [...a].length;
+  const lengthB = [...b].length;
+  const longer = Math.max(lengthA, lengthB);
+  const ratio = 1 - levenshtein(a, b) / longer;
+  const contained = a.includes(b) || b.includes(a) ? Math.min(lengthA, lengthB) / longer : 0;
+  return Math.max(ratio, contained);
+}
+
+/**
+ * 候補を段階的に照合する。
+ * あいまい一致は数字が食い違う候補を除外する（"Task 1" と "Task 2" を取り違えないため）。
+ */
+export function matchTitles<T>(
+  name: string,
+  candidates: Array<{ item: T; title: string }>
+): MatchResult<T> {
+  const normalized = normalizeTitle(name);
+  const digits = digitsOf(name);
+
+  const scored: Array<MatchCandidate<T>> = candidates.map(({ item, title }) => {
+    const candidate: MatchCandidate<T> = { item, title, score: similarity(name, title) };
+    if (title === name) {
+      candidate.tier = "exact";
+    } else if (normalizeTitle(title) === normalized) {
+      candidate.tier = "normalized";
+    } else if (candidate.score >= FUZZY_THRESHOLD && digitsOf(title) === digits) {
+      candidate.tier = "fuzzy";
+    }
+    return candidate;
+  });
+
+  const ranked = scored
+    .filter((c) => c.score >= SUGGEST_THRESHOLD)
+    .sort((x, y) => y.score - x.score);
+
+  for (const tier of ["exact", "normalized", "fuzzy"] as const) {
+    const matches = ranked.filter((c) => c.tier === tier);
+    if (matches.length > 0) return { tier, matches, ranked };
+  }
+  return { matches: [], ranked };
+}
+
+function digitsOf(text: string): string {
+  return (text.match(/\d+/g) ?? []).join(" ");
+}
+
+/** 2文字列間の編集距離（挿入・削除・置換） */
+function levenshtein(a: string, b: string): number {
+  const chars = [...b];
+  let previous = Array.from({ length: chars.length + 1 }, (_, i) => i);
+  for (const ca of a) {
+    const current = [previous[0] + 1];
+    chars.forEach((cb, j) => {
+      current.push(Math.min(previous[j + 1] + 1, current[j] + 1, previous[j] + (ca === cb ? 0 : 1)));
+    });
+    previous = current;
+  }
+  return previous[chars.length];
+}
@@ -0,0 +1,162 @@
+/**
+ * Notion APIのレート制御
+ * トークンバケットで平均リクエスト数を抑え、429/5xx はジッター付きバックオフで再試行する。
+ * 5xx は書き込みが反映済みかもしれないので、冪等なリクエスト（GET/DELETE）でだけ再試行する。
+ * 429 の Retry-After はバケット全体を止めるので、同じワークスペースの全呼び出しが待つ。
+ */
+
+export interface RateLimitOptions {
+  /** 1秒あたりの平均リクエスト数（Notionの上限は平均約3 req/s） */
+  requestsPerSecond: number;
+  /** 連続で送れる最大リクエスト数 */
+  burst: number;
+  /** 再試行の最大回数 */
+  maxRetries: number;
+  /** バックオフの初期待ち時間 (ms) */
+  baseDelayMs: number;
+  /** バックオフの上限 (ms)。Retry-After はこの上限に関係なく守る */
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RATE_LIMIT: RateLimitOptions = {
+  requestsPerSecond: 3,
+  burst: 3,
+  maxRetries: 4,
+  baseDelayMs: 500,
+  maxDelayMs: 30_000,
+};
+
+/** 冪等なリクエストで再試行するHTTPステータス */
+const RETRYABLE_STATUS = new Set([429, 500, 502, 503, 504]);
+
+/** 再試行しても重複しない HTTP メソッド */
+const IDEMPOTENT_METHODS = new Set(["get", "delete"]);
+
+/** 冪等なリクエストか（POST/PATCH の 5xx は反映済みかもしれないので再試行しない） */
+export function isIdempotentMethod(method: string): boolean {
+  return IDEMPOTENT_METHODS.has(method.toLowerCase());
+}
+
+export class RateLimiter {
+  private readonly options: RateLimitOptions;
+  private tokens: number;
+  private lastRefill: number;
+  private pausedUntil = 0;
+  /** トークン取得を先着順にするための待ち行列 */
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    options: Partial<RateLimitOptions> = {},
+    private readonly sleep: (ms: number) => Promise<void> = defaultSleep,
+    private readonly now: () => number = Date.now,
+    private readonly random: () => number = Math.random
+  ) {
+    this.options = { ...DEFAULT_RATE_LIMIT, ...options };
+    this.tokens = this.options.burst;
+    this.lastRefill = this.now();
+  }
+
+  /**
+   * レート制御下で fn を実行する。429 で失敗した場合は再試行する。
+   * 5xx は idempotent のときだけ再試行する（429 は処理されていないので常に安全）。
+   * 再試行しても失敗した場合は最後のエラーをそのまま投げる。
+   */
+  async schedule<T>(fn: () => Promise<T>, options: { idempotent?: boolean } = {}): Promise<T> {
+    const idempotent = options.idempotent ?? true;
+    for (let attempt = 0; ; attempt++) {
+      await this.acquire();
+      try {
+        return await fn();
+      } catch (error) {
+        const status = getStatus(error);
+        const retryable =
+          status !== undefined && RETRYABLE_STATUS.has(status) && (status === 429 || idempotent);
+        if (!retryable || attempt >= this.options.maxRetries) {
+          throw error;
+        }
+        const retryAfter = getRetryAfterMs(error);
+        if (retryAfter !== undefined) {
+          // サーバー指定の待ち時間はワークスペース全体に適用する
+          this.pause(retryAfter);
+        } else {
+          await this.sleep(this.backoff(attempt));
+        }
+      }
+    }
+  }
+
+  /** ms の間、新しいリクエストを止める */
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, this.now() + ms);
+  }
+
+  /** トークンを1つ取得する（先着順） */
+  private acquire(): Promise<void> {
+    const turn = this.queue.then(() => this.take());
+    this.queue = turn.catch(() => {});
+    return turn;
+  }
+
+  private async take(): Promise<void> {
+    for (;;) {
+      const now = this.now();
+      if (now < this.pausedUntil) {
+        await this.sleep(this.pausedUntil - now);
+        continue;
+      }
+      this.refill(now);
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      await this.sleep(Math.ceil(((1 - this.tokens) * 1000) / this.options.requestsPerSecond));
+    }
+  }
+
+  private refill(now: number): void {
+    const elapsed = now - this.lastRefill;
+    this.lastRefill = now;
+    this.tokens = Math.min(
+      this.options.burst,
+      this.tokens + (elapsed * this.options.requestsPerSecond) / 1000
+    );
+  }
+
+  /** 指数バックオフ（上限あり）の後半50%にジッターをかける */
+  private backoff(attempt: number): number {
+    const delay = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * 2 ** attempt);
+    return Math.round(delay / 2 + (this.random() * delay) / 2);
+  }
+}
+
+function defaultSleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function getStatus(error: unknown): number | undefined {
+  if (error instanceof Error && "status" in error && typeof error.status === "number") {
+    return error.status;
+  }
+  return undefined;
+}
+
+/**
+ * エラーレスポンスの Retry-After（秒）をミリ秒で返す。
+ */
+function getRetryAfterMs(error: unknown): number | undefined {
+  if (!(error instanceof Error) || !("headers" in error)) return undefined;
+  const headers = error.headers as { get?: (name: string) => string | null } | Record<string, string> | undefined;
+  if (!headers) return undefined;
+
+  const value =
+    typeof headers.get === "function"
+      ? headers.get("retry-after")
+      : (headers as Record<string, string>)["retry-after"];
+  if (value === null || value === undefined || value === "") return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  // HTTP-date 形式
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
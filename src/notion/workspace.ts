@@ -0,0 +1,86 @@
+/**
+ * ワークスペース（認証プロファイル）管理
+ * NOTION_API_KEY_<NAME> 形式の環境変数で名前付きプロファイルを定義し、
+ * リクエストごとに AsyncLocalStorage でアクティブなプロファイルを切り替える。
+ */
+import { AsyncLocalStorage } from "node:async_hooks";
+import { NotionMcpError } from "../errors.js";
+
+/** プロファイル名未指定時の名前 */
+export const DEFAULT_WORKSPACE = "default";
+
+const PROFILE_ENV_PREFIX = "NOTION_API_KEY_";
+
+const storage = new AsyncLocalStorage<string>();
+
+/**
+ * 指定したワークスペースをアクティブにして処理を実行する。
+ * 内部で呼ばれる getClient() やキャッシュはこのワークスペースにスコープされる。
+ */
+export function withWorkspace<T>(
+  workspace: string | undefined,
+  fn: () => Promise<T>
+): Promise<T> {
+  const name = normalizeWorkspaceName(workspace ?? defaultWorkspace());
+  return storage.run(name, fn);
+}
+
+/**
+ * 現在アクティブなワークスペース名を返す。
+ */
+export function currentWorkspace(): string {
+  return storage.getStore() ?? normalizeWorkspaceName(defaultWorkspace());
+}
+
+/**
+ * ワークスペースのAPIキーを解決する。
+ * "default" は NOTION_API_KEY、それ以外は NOTION_API_KEY_<NAME> を参照する。
+ */
+export function resolveApiKey(workspace: string): string {
+  if (workspace === DEFAULT_WORKSPACE) {
+    const auth = process.env.NOTION_API_KEY;
+    if (!auth) {
+      throw new NotionMcpError(
+        "NOTION_API_KEY environment variable is not set",
+        "AUTH_MISSING"
+      );
+    }
+    return auth;
+  }
+
+  const envName = `${PROFILE_ENV_PREFIX}${workspace.toUpperCase()}`;
+  const auth = process.env[envName];
+  if (!auth) {
+    const available = listWorkspaces();
+    throw new NotionMcpError(
+      `Unknown workspace "${workspace}". Set ${envName} to define it.${available.length > 0 ? ` Available: ${available.join(", ")}` : ""}`,
+      "UNKNOWN_WORKSPACE"
+    );
+  }
+  return auth;
+}
+
+/**
+ * 環境変数から定義済みのワークスペース名一覧を返す。
+ */
+export function listWorkspaces(): string[] {
+  const names: string[] = [];
+  if (process.env.NOTION_API_KEY) names.push(DEFAULT_WORKSPACE);
+  for (const key of Object.keys(process.env)) {
+    if (key.startsWith(PROFILE_ENV_PREFIX) && process.env[key]) {
+      names.push(normalizeWorkspaceName(key.slice(PROFILE_ENV_PREFIX.length)));
+    }
+  }
+  return names;
+}
+
+function defaultWorkspace(): string {
+  return process.env.NOTION_DEFAULT_WORKSPACE || DEFAULT_WORKSPACE;
+}
+
+/**
+ * ワークスペース名を正規化する（小文字化し、英数字以外を "_" にまとめる）。
+ */
+export function normalizeWorkspaceName(name: string): string {
+  return name.trim().toLowerCase().replace(/[^a-z0-9]+/g, "_");
+}
@@ -0,0 +1,85 @@
+/**
+ * 安全モード: 読み取り専用モードとツール/アクションの許可・拒否リスト
+ *
+ * ルールは "tool"（全アクション）または "tool:action" の形式で指定する。
+ *   NOTION_READ_ONLY=true
+ *   NOTION_ALLOW_TOOLS=read,search,list,schema:list
+ *   NOTION_DENY_TOOLS=delete,write:replace
+ * 環境変数が設定されていない項目は設定ファイルの permissions を使う。
+ */
+import { getConfig } from "./config.js";
+import { NotionMcpError } from "./errors.js";
+
+/** ツールごとのアクション。アクションを持たないツールはツール名のみで判定する */
+export const TOOL_ACTIONS: Record<string, readonly string[]> = {
+  read: [],
+  search: [],
+  list: [],
+  write: ["create", "replace", "append", "prepend", "insert"],
+  update: [],
+  delete: [],
+  move: [],
+  schema: ["list", "add", "remove", "rename"],
+  comment: ["read", "add"],
+};
+
+/** 読み取り専用モードで許可される操作 */
+const READ_ONLY_RULES = ["read", "search", "list", "schema:list", "comment:read"];
+
+interface PermissionRules {
+  readOnly: boolean;
+  allow?: string[];
+  deny: string[];
+}
+
+/**
+ * ツールを登録すべきか判定する。いずれかのアクションが許可されていれば登録する。
+ */
+export function isToolEnabled(tool: string): boolean {
+  const actions = TOOL_ACTIONS[tool] ?? [];
+  if (actions.length === 0) return isActionAllowed(tool);
+  return actions.some((action) => isActionAllowed(tool, action));
+}
+
+/**
+ * ツール/アクションが許可されているか判定する。
+ */
+export function isActionAllowed(tool: string, action?: string): boolean {
+  const rules = loadRules();
+  const key = action ? `${tool}:${action}` : tool;
+  const matches = (rule: string) => rule === tool || rule === key;
+
+  if (rules.deny.some(matches)) return false;
+  if (rules.readOnly && !READ_ONLY_RULES.some(matches)) return false;
+  if (rules.allow && !rules.allow.some(matches)) return false;
+  return true;
+}
+
+/**
+ * 許可されていない操作ならエラーを投げる。
+ */
+export function assertAllowed(tool: string, action?: string): void {
+  if (isActionAllowed(tool, action)) return;
+  const key = action ? `${tool}:${action}` : tool;
+  throw new NotionMcpError(
+    `"${key}" is disabled on this server (read-only mode or tool allow/deny list).`,
+    "FORBIDDEN"
+  );
+}
+
+function loadRules(): PermissionRules {
+  const config = getConfig().permissions;
+  const readOnlyEnv = process.env.NOTION_READ_ONLY;
+  return {
+    readOnly: readOnlyEnv !== undefined
+      ? ["true", "1", "yes"].includes(readOnlyEnv.toLowerCase())
+      : config.readOnly ?? false,
+    allow: parseRuleList(process.env.NOTION_ALLOW_TOOLS) ?? config.allow,
+    deny: parseRuleList(process.env.NOTION_DENY_TOOLS) ?? config.deny ?? [],
+  };
+}
+
+function parseRuleList(value: string | undefined): string[] | undefined {
+  if (value === undefined) return undefined;
+  return value.split(",").map((s) => s.trim()).filter(Boolean);
+}
@@ -0,0 +1,64 @@
+/**
+ * 長時間処理の進捗通知とキャンセル
+ * ツールハンドラのextraから OperationContext を作り、Notion API呼び出しの間で
+ * キャンセル確認と進捗通知を行う。
+ */
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+import { NotionMcpError } from "./errors.js";
+
+export interface OperationContext {
+  /** リクエストのキャンセルシグナル */
+  signal?: AbortSignal;
+  /** 進捗を通知する（例: "Appended 100/250 blocks"） */
+  onProgress?: (message: string) => void;
+}
+
+/**
+ * ツールハンドラのextraから OperationContext を作る。
+ * クライアントが progressToken を指定した場合のみ notifications/progress を送る。
+ * progress はリクエスト内で単調増加するステップ数、内容は message で伝える。
+ */
+export function createOperationContext(
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+): OperationContext {
+  const progressToken = extra._meta?.progressToken;
+  if (progressToken === undefined) {
+    return { signal: extra.signal };
+  }
+
+  let step = 0;
+  return {
+    signal: extra.signal,
+    onProgress: (message) => {
+      step++;
+      extra
+        .sendNotification({
+          method: "notifications/progress",
+          params: { progressToken, progress: step, message },
+        })
+        .catch(() => {
+          // 通知の失敗で本処理を止めない
+        });
+    },
+  };
+}
+
+/**
+ * キャンセルされていればエラーを投げる。API呼び出しの間で呼ぶ。
+ * completed には中断時点までに完了した内容を渡す（エラーメッセージに含める）。
+ */
+export function throwIfCancelled(ctx: OperationContext | undefined, completed?: string): void {
+  if (!ctx?.signal?.aborted) return;
+  throw new NotionMcpError(
+    `Operation cancelled.${completed ? ` Completed before cancellation: ${completed}.` : ""}`,
+    "CANCELLED"
+  );
+}
+
+/**
+ * キャンセルによるエラーかどうか判定する。
+ */
+export function isCancelled(error: unknown): boolean {
+  return error instanceof NotionMcpError && error.code === "CANCELLED";
+}
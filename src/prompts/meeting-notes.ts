@@ -0,0 +1,67 @@
+/**
+ * meeting-notes プロンプト: 議事録の書き起こしから議事録ページを作る
+ */
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { FRONTMATTER_REFERENCE } from "../tools/write.js";
+
+export function registerMeetingNotesPrompt(server: McpServer): void {
+  server.registerPrompt(
+    "meeting-notes",
+    {
+      title: "Meeting notes from transcript",
+      description: "Turn a meeting transcript into structured meeting notes and save them to Notion.",
+      argsSchema: {
+        transcript: z.string().describe("Raw meeting transcript"),
+        parent: z.string().optional().describe("Page to create the notes under (name, ID, or URL)"),
+        database: z.string().optional().describe("Meeting notes database to add the notes to instead of a parent page"),
+      },
+    },
+    ({ transcript, parent, database }) => {
+      const location = database
+        ? `database: "${database}"`
+        : `parent: "${parent ?? "<parent page>"}"`;
+      const schemaStep = database
+        ? `Call schema({ database: "${database}" }) first and fill in matching properties (date, attendees, tags) under "properties".`
+        : parent
+          ? "No database is involved, so only title and icon are needed in the frontmatter."
+          : "Ask me which page the notes should be created under before writing them.";
+
+      const text = `Turn the following meeting transcript into meeting notes and save them to Notion with the write tool.
+
+${schemaStep}
+
+The body should contain:
+## Summary
+(3-5 bullet points)
+## Decisions
+## Action Items
+- [ ] Owner — task (due date if mentioned)
+## Open Questions
+
+Use this frontmatter format for the write tool:
+
+${FRONTMATTER_REFERENCE}
+
+Example:
+\`\`\`
+---
+title: <meeting title> <YYYY-MM-DD>
+${location}
+icon: "📝"
+---
+## Summary
+- ...
+\`\`\`
+
+Transcript:
+"""
+${transcript}
+"""`;
+
+      return {
+        messages: [{ role: "user", content: { type: "text", text } }],
+      };
+    }
+  );
+}
@@ -0,0 +1,52 @@
+/**
+ * triage-database プロンプト: 未整理のDBレコードを仕分けてプロパティを埋める
+ */
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { FRONTMATTER_REFERENCE } from "../tools/write.js";
+
+export function registerTriagePrompt(server: McpServer): void {
+  server.registerPrompt(
+    "triage-database",
+    {
+      title: "Triage database",
+      description: "Review untriaged records in a Notion database and set their status, priority, and tags.",
+      argsSchema: {
+        database: z.string().describe("Database to triage (name, ID, or URL)"),
+        filter: z.string().optional().describe('Filter selecting untriaged records, e.g. "Status is Inbox". Defaults to records with an empty status.'),
+      },
+    },
+    ({ database, filter }) => {
+      const listCall = filter
+        ? `list({ target: "${database}", filter: "${filter}" })`
+        : `list({ target: "${database}" }) and pick the records whose status or priority is empty`;
+
+      const text = `Triage the Notion database "${database}".
+
+Steps:
+1. Call schema({ database: "${database}" }) to learn the available status, priority, and tag options. Only use existing option names.
+2. Call ${listCall}.
+3. For each record, read it if the title alone is not enough to decide.
+4. Propose a status, priority, and tags for every record as a Markdown table and wait for my confirmation.
+5. After I confirm, apply the changes with the update tool (properties only), or with the write tool in batch mode when the body also needs edits.
+
+Batch updates with write use one document per record separated by "===":
+
+${FRONTMATTER_REFERENCE}
+
+Example:
+\`\`\`
+---
+id: <record id>
+properties:
+  Status: Todo
+  Priority: High
+---
+\`\`\``;
+
+      return {
+        messages: [{ role: "user", content: { type: "text", text } }],
+      };
+    }
+  );
+}
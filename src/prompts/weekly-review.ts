@@ -0,0 +1,61 @@
+/**
+ * weekly-review プロンプト: DBの今週の動きを振り返ってレビューページを作る
+ */
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { FRONTMATTER_REFERENCE } from "../tools/write.js";
+
+export function registerWeeklyReviewPrompt(server: McpServer): void {
+  server.registerPrompt(
+    "weekly-review",
+    {
+      title: "Weekly review",
+      description: "Summarize this week's activity in a Notion database and write a weekly review page.",
+      argsSchema: {
+        database: z.string().describe("Database to review (name, ID, or URL), e.g. 'Task Board'"),
+        parent: z.string().optional().describe("Page to create the review under. Defaults to asking the user."),
+        week: z.string().optional().describe("Week to review, e.g. '2026-W08' or '2026-02-16'. Defaults to the current week."),
+      },
+    },
+    ({ database, parent, week }) => {
+      const target = parent
+        ? `Create the review as a child page of "${parent}".`
+        : "Ask me which page the review should be created under before writing it.";
+
+      const text = `Write a weekly review for the Notion database "${database}" covering ${week ? `the week of ${week}` : "the current week"}.
+
+Steps:
+1. Call schema({ database: "${database}" }) to learn the property names, status values, and date columns.
+2. Call list({ target: "${database}" }) with a filter on the relevant date column (e.g. "Last edited after <start of week>") to collect this week's records.
+3. Group the records by status: completed, in progress, blocked, newly added.
+4. ${target} Use the write tool with a single Markdown document.
+
+The review page should have these sections:
+## Completed
+## In Progress
+## Blocked
+## Next Week
+
+Reference records by title. Keep each bullet to one line.
+
+Use this frontmatter format for the write tool:
+
+${FRONTMATTER_REFERENCE}
+
+Example:
+\`\`\`
+---
+title: Weekly Review ${week ?? "<week>"}
+parent: "${parent ?? "<parent page>"}"
+icon: "📋"
+---
+## Completed
+- ...
+\`\`\``;
+
+      return {
+        messages: [{ role: "user", content: { type: "text", text } }],
+      };
+    }
+  );
+}
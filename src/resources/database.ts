@@ -0,0 +1,55 @@
+/**
+ * database リソース: notion://database/{id} → スキーマ + レコードのMDテーブル
+ * 複数のデータソースを持つDBは、データソースごとにスキーマとレコードを並べる。
+ */
+import { ResourceTemplate, type McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { dataSourceOf, getDatabaseInfo } from "../notion/client.js";
+import { withWorkspace } from "../notion/workspace.js";
+import { listSchema } from "../tools/schema.js";
+import { listDatabase } from "../tools/list.js";
+import { NotionMcpError } from "../errors.js";
+import { parseResourceUri } from "./uri.js";
+
+/** リソースに含めるレコード数（データソースごと） */
+const RECORD_LIMIT = 50;
+
+export function registerDatabaseResource(server: McpServer): void {
+  server.registerResource(
+    "database",
+    new ResourceTemplate("notion://database/{id}", { list: undefined }),
+    {
+      title: "Notion database",
+      description:
+        "A Notion database schema and its records as Markdown tables (same format as the schema and list tools). " +
+        "A database with several data sources lists each of them; use a data source ID to get just one. " +
+        "Append ?workspace=<name> to read it with another workspace's API key.",
+      mimeType: "text/markdown",
+    },
+    async (uri, variables) => {
+      const { id, workspace } = parseResourceUri(uri, variables);
+      return withWorkspace(workspace, async () => {
+        // データソースIDならそれだけ、複数のデータソースを持つDBなら全部
+        let sources: Array<{ databaseId: string; dataSourceId: string }>;
+        try {
+          sources = [await dataSourceOf({ id, object: "database" })];
+        } catch (error) {
+          if (!(error instanceof NotionMcpError && error.code === "AMBIGUOUS")) throw error;
+          const info = await getDatabaseInfo(id);
+          sources = info.dataSources.map((ds) => ({ databaseId: info.id, dataSourceId: ds.id }));
+        }
+        const database = await getDatabaseInfo(sources[0].databaseId);
+
+        const sections: string[] = [];
+        for (const source of sources) {
+          const schema = await listSchema(source.dataSourceId, database);
+          const records = await listDatabase(source, RECORD_LIMIT);
+          sections.push([...schema.content, ...records.content].map((c) => c.text).join("\n\n"));
+        }
+
+        return {
+          contents: [{ uri: uri.href, mimeType: "text/markdown", text: sections.join("\n\n---\n\n") }],
+        };
+      });
+    }
+  );
+}
@@ -0,0 +1,61 @@
+/**
+ * page リソース: notion://page/{id} → frontmatter付きMD
+ */
+import { ResourceTemplate, type McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { PageObjectResponse } from "@notionhq/client/build/src/api-endpoints.js";
+import { getClient, getPage, search } from "../notion/client.js";
+import { withWorkspace } from "../notion/workspace.js";
+import { pageToMarkdown } from "../converter/to-markdown.js";
+import { parseResourceUri } from "./uri.js";
+
+/** resources/list で返す最近編集されたページ数 */
+const RECENT_PAGES_LIMIT = 20;
+
+export function registerPageResource(server: McpServer): void {
+  server.registerResource(
+    "page",
+    new ResourceTemplate("notion://page/{id}", {
+      list: async () => {
+        const results = await search({
+          query: "",
+          filter: "page",
+          limit: RECENT_PAGES_LIMIT,
+          sort: "last_edited",
+        });
+        return {
+          resources: results
+            .filter((r): r is PageObjectResponse => r.object === "page")
+            .map((page) => ({
+              uri: `notion://page/${page.id}`,
+              name: getPageTitle(page),
+              description: `Last edited: ${page.last_edited_time.slice(0, 10)}`,
+              mimeType: "text/markdown",
+            })),
+        };
+      },
+    }),
+    {
+      title: "Notion page",
+      description: "A Notion page as Markdown with YAML frontmatter (same format as the read tool). Append ?workspace=<name> to read it with another workspace's API key.",
+      mimeType: "text/markdown",
+    },
+    async (uri, variables) => {
+      const { id, workspace } = parseResourceUri(uri, variables);
+      return withWorkspace(workspace, async () => {
+        const page = await getPage(id);
+        const markdown = await pageToMarkdown(getClient(), page);
+        return {
+          contents: [{ uri: uri.href, mimeType: "text/markdown", text: markdown }],
+        };
+      });
+    }
+  );
+}
+
+function getPageTitle(page: PageObjectResponse): string {
+  const titleProp = Object.values(page.properties).find((p) => p.type === "title");
+  if (titleProp?.type === "title") {
+    return titleProp.title.map((t) => t.plain_text).join("") || "Untitled";
+  }
+  return "Untitled";
+}
@@ -0,0 +1,18 @@
+/**
+ * リソースURIの共通処理
+ * notion://page/{id}?workspace=<name> のように、クエリでワークスペースを選べる。
+ */
+import type { Variables } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
+import { extractId } from "../notion/helpers.js";
+
+/**
+ * URI から Notion の ID とワークスペース名を取り出す。
+ * テンプレートの {id} はクエリ部分まで含むので、? 以降を落とす。
+ */
+export function parseResourceUri(uri: URL, variables: Variables): { id: string; workspace?: string } {
+  const raw = String(variables.id).replace(/\?.*$/, "");
+  return {
+    id: extractId(decodeURIComponent(raw)),
+    workspace: uri.searchParams.get("workspace") ?? undefined,
+  };
+}
@@ -8,6 +8,32 @@ import { registerMoveTool } from "./tools/move.js";
 import { registerUpdateTool } from "./tools/update.js";
 import { registerSchemaTool } from "./tools/schema.js";
 import { registerCommentTool } from "./tools/comment.js";
+import { registerPageResource } from "./resources/page.js";
+import { registerDatabaseResource } from "./resources/database.js";
+import { registerWeeklyReviewPrompt } from "./prompts/weekly-review.js";
+import { registerMeetingNotesPrompt } from "./prompts/meeting-notes.js";
+import { registerTriagePrompt } from "./prompts/triage.js";
+import { isToolEnabled } from "./permissions.js";
+
+/** ツール名と登録関数。安全モードで無効化されたツールは登録しない */
+const TOOLS: Array<[string, (server: McpServer) => void]> = [
+  ["read", registerReadTool],
+  ["write", registerWriteTool],
+  ["search", registerSearchTool],
+  ["list", registerListTool],
+  ["delete", registerDeleteTool],
+  ["move", registerMoveTool],
+  ["update", registerUpdateTool],
+  ["schema", registerSchemaTool],
+  ["comment", registerCommentTool],
+];
+
+/** プロンプトと、その手順で呼ぶツール。ツールが1つでも無効なら登録しない */
+const PROMPTS: Array<[(server: McpServer) => void, string[]]> = [
+  [registerWeeklyReviewPrompt, ["schema", "list", "write"]],
+  [registerMeetingNotesPrompt, ["schema", "write"]],
+  [registerTriagePrompt, ["schema", "list", "read", "update", "write"]],
+];
 
 export function createServer(): McpServer {
   const server = new McpServer({
@@ -15,15 +41,19 @@ export function createServer(): McpServer {
     version: "0.3.2",
   });
 
-  registerReadTool(server);
-  registerWriteTool(server);
-  registerSearchTool(server);
-  registerListTool(server);
-  registerDeleteTool(server);
-  registerMoveTool(server);
-  registerUpdateTool(server);
-  registerSchemaTool(server);
-  registerCommentTool(server);
+  for (const [name, register] of TOOLS) {
+    if (isToolEnabled(name)) register(server);
+  }
+
+  // リソースは read / list と同じ内容を返すので、どちらかが無効なら公開しない
+  if (isToolEnabled("read") && isToolEnabled("list")) {
+    registerPageResource(server);
+    registerDatabaseResource(server);
+  }
+
+  for (const [register, tools] of PROMPTS) {
+    if (tools.every(isToolEnabled)) register(server);
+  }
 
   return server;
 }
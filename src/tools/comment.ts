@@ -3,9 +3,11 @@
  */
 import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { extractId, isNotionId } from "../notion/helpers.js";
-import { getClient, resolveByName } from "../notion/client.js";
+import { getClient, resolveTarget } from "../notion/client.js";
 import { formatError } from "../errors.js";
+import { assertAllowed } from "../permissions.js";
+import { withWorkspace } from "../notion/workspace.js";
+import { workspaceParam } from "./shared.js";
 
 const DESCRIPTION = `Add or read comments on a Notion page.
 
@@ -17,48 +19,62 @@ const DESCRIPTION = `Add or read comments on a Notion page.
   comment({ page: "abc123", body: "Looks good! Ready to ship." })
   Adds a comment to the page.
 
-You can use the page name, ID, or URL.`;
+You can use the page name, path (e.g. "Projects/Alpha/Notes"), alias, ID, or URL.`;
+
+const CommentSchema = z.object({
+  id: z.string(),
+  createdTime: z.string(),
+  author: z.string().describe("User ID of the comment author"),
+  text: z.string(),
+});
+
+const OutputSchema = z.object({
+  pageId: z.string(),
+  comments: z.array(CommentSchema).optional().describe("Existing comments (when reading)"),
+  added: CommentSchema.optional().describe("The new comment (when adding)"),
+});
 
 export function registerCommentTool(server: McpServer): void {
-  server.tool(
+  server.registerTool(
     "comment",
-    DESCRIPTION,
     {
-      page: z.string().describe("Page ID, URL, or name"),
-      body: z
-        .string()
-        .optional()
-        .describe("Comment text to add. If omitted, existing comments are returned instead."),
+      description: DESCRIPTION,
+      inputSchema: {
+        page: z.string().describe("Page ID, URL, alias, name, or path (e.g. 'Projects/Alpha/Notes')"),
+        body: z
+          .string()
+          .optional()
+          .describe("Comment text to add. If omitted, existing comments are returned instead."),
+        workspace: workspaceParam,
+      },
+      outputSchema: OutputSchema.shape,
     },
-    async ({ page, body }) => {
-      try {
-        // ページIDの解決
-        let pageId: string;
-        if (isNotionId(page) || page.includes("notion.so") || page.includes("notion.site")) {
-          pageId = extractId(page);
-        } else {
-          const resolved = await resolveByName(page, "page");
-          pageId = resolved.id;
-        }
+    async ({ page, body, workspace }) =>
+      withWorkspace(workspace, async () => {
+        try {
+          assertAllowed("comment", body ? "add" : "read");
+
+          // ページIDの解決
+          const { id: pageId } = await resolveTarget(page, "page");
 
-        if (body) {
-          return await addComment(pageId, body);
-        } else {
-          return await listComments(pageId);
+          if (body) {
+            return await addComment(pageId, body);
+          } else {
+            return await listComments(pageId);
+          }
+        } catch (error) {
+          return {
+            content: [{ type: "text" as const, text: formatError(error) }],
+            isError: true,
+          };
         }
-      } catch (error) {
-        return {
-          content: [{ type: "text" as const, text: formatError(error) }],
-          isError: true,
-        };
-      }
-    }
+      })
   );
 }
 
 async function addComment(pageId: string, body: string) {
   const notion = getClient();
-  await notion.comments.create({
+  const created = await notion.comments.create({
     parent: { page_id: pageId },
     rich_text: [
       {
@@ -68,8 +84,18 @@ async function addComment(pageId: string, body: string) {
     ],
   });
 
+  const added = "created_time" in created
+    ? {
+        id: created.id,
+        createdTime: created.created_time,
+        author: created.created_by.id,
+        text: body,
+      }
+    : undefined;
+
   return {
     content: [{ type: "text" as const, text: `Comment added to ${pageId}` }],
+    structuredContent: { pageId, added },
   };
 }
 
@@ -100,9 +126,20 @@ async function listComments(pageId: string) {
     cursor = response.next_cursor;
   }
 
+  const structured = {
+    pageId,
+    comments: allComments.map((comment) => ({
+      id: comment.id,
+      createdTime: comment.created_time,
+      author: comment.created_by.id,
+      text: comment.rich_text.map((t) => t.plain_text).join(""),
+    })),
+  };
+
   if (allComments.length === 0) {
     return {
       content: [{ type: "text" as const, text: "No comments on this page." }],
+      structuredContent: structured,
     };
   }
 
@@ -115,5 +152,6 @@ async function listComments(pageId: string) {
 
   return {
     content: [{ type: "text" as const, text: lines.join("\n") }],
+    structuredContent: structured,
   };
 }
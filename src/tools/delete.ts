@@ -6,44 +6,58 @@ import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { extractId } from "../notion/helpers.js";
 import { archivePage, getPage } from "../notion/client.js";
 import { formatError } from "../errors.js";
+import { withWorkspace } from "../notion/workspace.js";
+import { workspaceParam } from "./shared.js";
+
+const OutputSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  archived: z.boolean(),
+});
 
 export function registerDeleteTool(server: McpServer): void {
-  server.tool(
+  server.registerTool(
     "delete",
-    `Archive (soft-delete) a Notion page. The page is moved to Trash and can be restored from Notion's UI. This does NOT permanently delete the page.`,
     {
-      page: z.string().describe("Page ID or Notion URL to archive"),
+      description: `Archive (soft-delete) a Notion page. The page is moved to Trash and can be restored from Notion's UI. This does NOT permanently delete the page.`,
+      inputSchema: {
+        page: z.string().describe("Page ID or Notion URL to archive"),
+        workspace: workspaceParam,
+      },
+      outputSchema: OutputSchema.shape,
     },
-    async ({ page }) => {
-      try {
-        const pageId = extractId(page);
+    async ({ page, workspace }) =>
+      withWorkspace(workspace, async () => {
+        try {
+          const pageId = extractId(page);
 
-        // タイトル取得用に先にページ情報を取る
-        const pageObj = await getPage(pageId);
-        const titleProp = Object.values(pageObj.properties).find(
-          (p) => p.type === "title"
-        );
-        const title =
-          titleProp?.type === "title"
-            ? titleProp.title.map((t) => t.plain_text).join("")
-            : "Untitled";
+          // タイトル取得用に先にページ情報を取る
+          const pageObj = await getPage(pageId);
+          const titleProp = Object.values(pageObj.properties).find(
+            (p) => p.type === "title"
+          );
+          const title =
+            titleProp?.type === "title"
+              ? titleProp.title.map((t) => t.plain_text).join("")
+              : "Untitled";
 
-        await archivePage(pageId);
+          await archivePage(pageId);
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Archived: "${title}" (${pageId})`,
-            },
-          ],
-        };
-      } catch (error) {
-        return {
-          content: [{ type: "text", text: formatError(error) }],
-          isError: true,
-        };
-      }
-    }
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Archived: "${title}" (${pageId})`,
+              },
+            ],
+            structuredContent: { id: pageId, title, archived: true },
+          };
+        } catch (error) {
+          return {
+            content: [{ type: "text", text: formatError(error) }],
+            isError: true,
+          };
+        }
+      })
   );
 }
@@ -4,26 +4,33 @@
 import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import type { PageObjectResponse } from "@notionhq/client/build/src/api-endpoints.js";
-import { extractId, isNotionId } from "../notion/helpers.js";
 import {
   getPage,
-  getDatabaseDataSourceId,
+  dataSourceOf,
   getDataSource,
   queryDataSource,
   listChildren,
-  resolveByName,
-  detectObjectType,
+  resolveTarget,
 } from "../notion/client.js";
-import { extractDatabaseSchema } from "../converter/frontmatter.js";
+import { extractDatabaseSchema, extractPropertyValues } from "../converter/frontmatter.js";
 import type { DatabasePropertySchema } from "../converter/types.js";
+import { getDatabaseConfig } from "../config.js";
 import { formatError } from "../errors.js";
+import { createOperationContext, type OperationContext } from "../progress.js";
+import { withWorkspace } from "../notion/workspace.js";
+import { clearCache } from "../notion/cache.js";
+import { refreshParam, workspaceParam } from "./shared.js";
+
+const DEFAULT_LIMIT = 50;
 
 const DESCRIPTION = `List database records as a Markdown table, or list child pages of a page.
 
 For databases: returns a table with properties as columns.
 For pages: returns a numbered list of child pages.
 
-You can pass a database/page name (resolved via search) or an ID/URL.
+You can pass a database/page name (resolved via search), a slash-separated path from a root page or alias (e.g. "Projects/Alpha/Tasks"), an alias from .better-notion.json, or an ID/URL.
+For a database with several data sources, name the data source after the database (e.g. "CRM / Leads") or pass a data source ID.
+Databases configured in .better-notion.json use their default filter, sort, columns and limit when those arguments are omitted.
 
 ## Filter syntax (databases only)
 Simple expressions matched against DB property names and types:
@@ -46,67 +53,113 @@ Multiple filters: separate with " AND " (e.g. "Status is Done AND Priority is Hi
 |---|---|---|
 | Fix login bug | In Progress | 2026-03-01 |`;
 
+const OutputSchema = z.object({
+  type: z.enum(["database", "page"]),
+  id: z.string(),
+  dataSourceId: z.string().optional().describe("Data source that was listed (databases only)"),
+  title: z.string(),
+  count: z.number(),
+  filter: z.string().optional(),
+  columns: z.array(z.string()).optional().describe("Columns shown in the Markdown table (databases only)"),
+  rows: z
+    .array(
+      z.object({
+        id: z.string(),
+        url: z.string(),
+        properties: z.record(z.unknown()),
+      })
+    )
+    .optional()
+    .describe("Database records with all property values (databases only)"),
+  children: z
+    .array(
+      z.object({
+        id: z.string(),
+        title: z.string(),
+        url: z.string(),
+        icon: z.string().optional(),
+        lastEdited: z.string(),
+      })
+    )
+    .optional()
+    .describe("Child pages (pages only)"),
+});
+
+type ListOutput = z.infer<typeof OutputSchema>;
+
 export function registerListTool(server: McpServer): void {
-  server.tool(
+  server.registerTool(
     "list",
-    DESCRIPTION,
     {
-      target: z.string().describe("Database or page: name (e.g. 'Task Board'), ID, or Notion URL"),
-      filter: z
-        .string()
-        .optional()
-        .describe('Filter expression (e.g. "Status is Done", "Priority > 3"). See tool description for syntax.'),
-      sort: z
-        .string()
-        .optional()
-        .describe('Sort expression (e.g. "Due Date ascending", "Created desc")'),
-      limit: z
-        .number()
-        .int()
-        .min(1)
-        .max(200)
-        .default(50)
-        .describe("Max items to return (default: 50)"),
+      description: DESCRIPTION,
+      inputSchema: {
+        target: z.string().describe("Database or page: name (e.g. 'Task Board'), path (e.g. 'Projects/Alpha/Tasks'), alias, ID, or Notion URL"),
+        filter: z
+          .string()
+          .optional()
+          .describe('Filter expression (e.g. "Status is Done", "Priority > 3"). See tool description for syntax.'),
+        sort: z
+          .string()
+          .optional()
+          .describe('Sort expression (e.g. "Due Date ascending", "Created desc")'),
+        limit: z
+          .number()
+          .int()
+          .min(1)
+          .max(200)
+          .optional()
+          .describe("Max items to return (default: 50)"),
+        refresh: refreshParam,
+        workspace: workspaceParam,
+      },
+      outputSchema: OutputSchema.shape,
     },
-    async ({ target, filter, sort, limit }) => {
-      try {
-        let targetId: string;
-        let targetType: "page" | "database";
-
-        if (isNotionId(target) || target.includes("notion.so") || target.includes("notion.site")) {
-          targetId = extractId(target);
-          const detected = await detectObjectType(targetId);
-          targetType = detected.type;
-        } else {
-          const resolved = await resolveByName(target);
-          targetId = resolved.id;
-          targetType = resolved.object;
-        }
-
-        if (targetType === "database") {
-          return await listDatabase(targetId, limit, filter, sort);
-        } else {
-          return await listPageChildren(targetId, limit);
+    async ({ target, filter, sort, limit, refresh, workspace }, extra) =>
+      withWorkspace(workspace, async () => {
+        try {
+          const ctx = createOperationContext(extra);
+          if (refresh) clearCache();
+          const resolved = await resolveTarget(target);
+
+          if (resolved.object === "database") {
+            const source = await dataSourceOf(resolved);
+            // 設定ファイルのデフォルト値で未指定の引数を補う
+            const defaults = getDatabaseConfig(source.databaseId)?.list;
+            return await listDatabase(
+              source,
+              limit ?? defaults?.limit ?? DEFAULT_LIMIT,
+              filter ?? defaults?.filter,
+              sort ?? defaults?.sort,
+              defaults?.columns,
+              ctx
+            );
+          } else {
+            return await listPageChildren(resolved.id, limit ?? DEFAULT_LIMIT);
+          }
+        } catch (error) {
+          return {
+            content: [{ type: "text" as const, text: formatError(error) }],
+            isError: true,
+          };
         }
-      } catch (error) {
-        return {
-          content: [{ type: "text" as const, text: formatError(error) }],
-          isError: true,
-        };
-      }
-    }
+      })
   );
 }
 
 // ─── DB listing ───
 
-async function listDatabase(
-  dbId: string,
+/**
+ * DBレコードをMDテーブルとして返す。resources からも利用する。
+ */
+export async function listDatabase(
+  source: { databaseId: string; dataSourceId: string },
   limit: number,
   filterExpr?: string,
-  sortExpr?: string
+  sortExpr?: string,
+  columnNames?: string[],
+  ctx?: OperationContext
 ) {
-  const dsId = await getDatabaseDataSourceId(dbId);
+  const dsId = source.dataSourceId;
   const ds = await getDataSource(dsId);
   const schema = extractDatabaseSchema(ds);
 
@@ -114,24 +167,43 @@ async function listDatabase(
   const apiFilter = filterExpr ? buildFilter(filterExpr, schema) : undefined;
   const apiSorts = sortExpr ? buildSort(sortExpr, schema) : undefined;
 
-  const pages = await queryDataSource({
-    dataSourceId: dsId,
-    filter: apiFilter,
-    sorts: apiSorts,
-    limit,
-  });
+  const pages = await queryDataSource(
+    {
+      dataSourceId: dsId,
+      filter: apiFilter,
+      sorts: apiSorts,
+      limit,
+    },
+    ctx
+  );
 
-  const columns = schema
-    .filter((s) => !["formula", "rollup", "created_by", "last_edited_by", "button", "verification"].includes(s.type))
-    .slice(0, 8);
+  const columns = columnNames
+    ? pickColumns(schema, columnNames)
+    : schema
+        .filter((s) => !["formula", "rollup", "created_by", "last_edited_by", "button", "verification"].includes(s.type))
+        .slice(0, 8);
 
   const title = ds.title.map((t) => t.plain_text).join("") || "Untitled Database";
   const filterNote = filterExpr ? ` (filter: ${filterExpr})` : "";
   const lines: string[] = [`# ${title}${filterNote} (${pages.length} items)\n`];
+  const structured: ListOutput = {
+    type: "database",
+    id: source.databaseId,
+    dataSourceId: dsId,
+    title,
+    count: pages.length,
+    filter: filterExpr,
+    columns: columns.map((c) => c.name),
+    rows: pages.map((page) => ({
+      id: page.id,
+      url: page.url,
+      properties: extractPropertyValues(page),
+    })),
+  };
 
   if (pages.length === 0) {
     lines.push("No records found.");
-    return { content: [{ type: "text" as const, text: lines.join("\n") }] };
+    return { content: [{ type: "text" as const, text: lines.join("\n") }], structuredContent: structured };
   }
 
   // MDテーブル（IDカラムを先頭に追加）
@@ -149,7 +221,7 @@ async function listDatabase(
     lines.push(`| ${id} | ${row.join(" | ")} |`);
   }
 
-  return { content: [{ type: "text" as const, text: lines.join("\n") }] };
+  return { content: [{ type: "text" as const, text: lines.join("\n") }], structuredContent: structured };
 }
 
 // ─── Page children listing ───
@@ -165,10 +237,23 @@ async function listPageChildren(pageId: string, limit: number) {
   const children = await listChildren(pageId, limit);
 
   const lines: string[] = [`# ${pageTitle} - child pages (${children.length} items)\n`];
+  const structured: ListOutput = {
+    type: "page",
+    id: pageId,
+    title: pageTitle,
+    count: children.length,
+    children: children.map((child) => ({
+      id: child.id,
+      title: getTitle(child),
+      url: child.url,
+      icon: child.icon?.type === "emoji" ? child.icon.emoji : undefined,
+      lastEdited: child.last_edited_time,
+    })),
+  };
 
   if (children.length === 0) {
     lines.push("No child pages found.");
-    return { content: [{ type: "text" as const, text: lines.join("\n") }] };
+    return { content: [{ type: "text" as const, text: lines.join("\n") }], structuredContent: structured };
   }
 
   children.forEach((child, i) => {
@@ -178,7 +263,7 @@ async function listPageChildren(pageId: string, limit: number) {
     lines.push(`${i + 1}. ${icon} [${childTitle}](${child.url}) - ${edited}`);
   });
 
-  return { content: [{ type: "text" as const, text: lines.join("\n") }] };
+  return { content: [{ type: "text" as const, text: lines.join("\n") }], structuredContent: structured };
 }
 
 // ─── Filter parser ───
@@ -388,6 +473,18 @@ function buildSort(
 
 // ─── Helpers ───
 
+/**
+ * 指定された名前順にカラムを選ぶ（大文字小文字を区別しない）。存在しない名前は無視する。
+ */
+function pickColumns(
+  schema: DatabasePropertySchema[],
+  names: string[]
+): DatabasePropertySchema[] {
+  return names
+    .map((name) => schema.find((s) => s.name.toLowerCase() === name.toLowerCase()))
+    .filter((s): s is DatabasePropertySchema => s !== undefined);
+}
+
 function parseFilterNumber(value: string): number | null {
   const num = Number(value);
   if (isNaN(num)) return null;
@@ -3,64 +3,79 @@
  */
 import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { extractId, isNotionId } from "../notion/helpers.js";
-import { getPage, movePage, resolveByName, detectObjectType } from "../notion/client.js";
+import { extractId } from "../notion/helpers.js";
+import { dataSourceOf, getPage, movePage, resolveTarget } from "../notion/client.js";
 import { formatError } from "../errors.js";
+import { withWorkspace } from "../notion/workspace.js";
+import { workspaceParam } from "./shared.js";
+
+const OutputSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  destination: z.object({
+    id: z.string(),
+    type: z.enum(["page", "database"]),
+  }),
+});
 
 export function registerMoveTool(server: McpServer): void {
-  server.tool(
+  server.registerTool(
     "move",
-    `Move a Notion page to a different parent page or database. The page keeps its content and properties; only the location changes.
+    {
+      description: `Move a Notion page to a different parent page or database. The page keeps its content and properties; only the location changes.
 
 Example: move a page into an "Archive" page, or move a task into a different database.`,
-    {
-      page: z.string().describe("Page ID or URL of the page to move"),
-      to: z.string().describe("Destination: page name, database name, ID, or URL"),
+      inputSchema: {
+        page: z.string().describe("Page ID or URL of the page to move"),
+        to: z.string().describe("Destination: page name, database name, path (e.g. 'Projects/Archive'), alias, ID, or URL"),
+        workspace: workspaceParam,
+      },
+      outputSchema: OutputSchema.shape,
     },
-    async ({ page, to }) => {
-      try {
-        const pageId = extractId(page);
+    async ({ page, to, workspace }) =>
+      withWorkspace(workspace, async () => {
+        try {
+          const pageId = extractId(page);
 
-        // 移動元のタイトル取得
-        const pageObj = await getPage(pageId);
-        const titleProp = Object.values(pageObj.properties).find(
-          (p) => p.type === "title"
-        );
-        const title =
-          titleProp?.type === "title"
-            ? titleProp.title.map((t) => t.plain_text).join("")
-            : "Untitled";
+          // 移動元のタイトル取得
+          const pageObj = await getPage(pageId);
+          const titleProp = Object.values(pageObj.properties).find(
+            (p) => p.type === "title"
+          );
+          const title =
+            titleProp?.type === "title"
+              ? titleProp.title.map((t) => t.plain_text).join("")
+              : "Untitled";
 
-        // 移動先の解決
-        let destId: string;
-        let destType: "page_id" | "data_source_id";
+          // 移動先の解決
+          const resolved = await resolveTarget(to, undefined, { exact: true });
+          const destId = resolved.id;
+          if (resolved.object === "page") {
+            await movePage(pageId, destId, "page_id");
+          } else {
+            const { dataSourceId } = await dataSourceOf(resolved);
+            await movePage(pageId, dataSourceId, "data_source_id");
+          }
 
-        if (isNotionId(to) || to.includes("notion.so") || to.includes("notion.site")) {
-          destId = extractId(to);
-          const detected = await detectObjectType(destId);
-          destType = detected.type === "page" ? "page_id" : "data_source_id";
-        } else {
-          const resolved = await resolveByName(to);
-          destId = resolved.id;
-          destType = resolved.object === "page" ? "page_id" : "data_source_id";
-        }
-
-        await movePage(pageId, destId, destType);
-
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Moved: "${title}" → ${to} (${destId})`,
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Moved: "${title}" → ${to} (${destId})`,
+              },
+            ],
+            structuredContent: {
+              id: pageId,
+              title,
+              destination: { id: destId, type: resolved.object },
             },
-          ],
-        };
-      } catch (error) {
-        return {
-          content: [{ type: "text", text: formatError(error) }],
-          isError: true,
-        };
-      }
-    }
+          };
+        } catch (error) {
+          return {
+            content: [{ type: "text", text: formatError(error) }],
+            isError: true,
+          };
+        }
+      })
   );
 }
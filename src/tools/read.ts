@@ -7,8 +7,12 @@ import type { PageObjectResponse } from "@notionhq/client/build/src/api-endpoint
 import { extractId } from "../notion/helpers.js";
 import { getPage, listChildren } from "../notion/client.js";
 import { pageToMarkdown } from "../converter/to-markdown.js";
+import { pageToFrontmatter } from "../converter/frontmatter.js";
 import { getClient } from "../notion/client.js";
 import { formatError } from "../errors.js";
+import { createOperationContext, throwIfCancelled, type OperationContext } from "../progress.js";
+import { withWorkspace } from "../notion/workspace.js";
+import { workspaceParam } from "./shared.js";
 
 const DESCRIPTION = `Read a Notion page and return it as Markdown with YAML frontmatter.
 
@@ -40,38 +44,60 @@ properties:
 - Completed API design
 `;
 
+const ReadPageSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  url: z.string(),
+  depth: z.number().describe("0 = requested page, 1 = child, 2 = grandchild"),
+  lastEdited: z.string(),
+  markdown: z.string(),
+});
+
+const OutputSchema = z.object({
+  pages: z.array(ReadPageSchema),
+});
+
+type ReadPage = z.infer<typeof ReadPageSchema>;
+
 export function registerReadTool(server: McpServer): void {
-  server.tool(
+  server.registerTool(
     "read",
-    DESCRIPTION,
     {
-      page: z.string().describe("Notion page URL (https://notion.so/...) or page ID (UUID or 32-char hex)"),
-      depth: z
-        .number()
-        .int()
-        .min(1)
-        .max(3)
-        .default(1)
-        .describe("How deep to read child pages: 1 = this page only (default), 2 = include children, 3 = include grandchildren"),
+      description: DESCRIPTION,
+      inputSchema: {
+        page: z.string().describe("Notion page URL (https://notion.so/...) or page ID (UUID or 32-char hex)"),
+        depth: z
+          .number()
+          .int()
+          .min(1)
+          .max(3)
+          .default(1)
+          .describe("How deep to read child pages: 1 = this page only (default), 2 = include children, 3 = include grandchildren"),
+        workspace: workspaceParam,
+      },
+      outputSchema: OutputSchema.shape,
     },
-    async ({ page, depth }) => {
-      try {
-        const pageId = extractId(page);
-        const client = getClient();
-        const parts: string[] = [];
+    async ({ page, depth, workspace }, extra) =>
+      withWorkspace(workspace, async () => {
+        try {
+          const ctx = createOperationContext(extra);
+          const pageId = extractId(page);
+          const client = getClient();
+          const pages: ReadPage[] = [];
 
-        await readRecursive(client, pageId, depth, 0, parts);
+          await readRecursive(client, pageId, depth, 0, pages, ctx);
 
-        return {
-          content: [{ type: "text", text: parts.join("\n---\n\n") }],
-        };
-      } catch (error) {
-        return {
-          content: [{ type: "text", text: formatError(error) }],
-          isError: true,
-        };
-      }
-    }
+          return {
+            content: [{ type: "text", text: pages.map((p) => p.markdown).join("\n---\n\n") }],
+            structuredContent: { pages },
+          };
+        } catch (error) {
+          return {
+            content: [{ type: "text", text: formatError(error) }],
+            isError: true,
+          };
+        }
+      })
   );
 }
 
@@ -80,17 +106,27 @@ async function readRecursive(
   pageId: string,
   maxDepth: number,
   currentDepth: number,
-  parts: string[]
+  pages: ReadPage[],
+  ctx?: OperationContext
 ): Promise<void> {
+  throwIfCancelled(ctx, `read ${pages.length} pages`);
   const pageObj = await getPage(pageId);
   const markdown = await pageToMarkdown(client, pageObj);
-  parts.push(markdown);
+  pages.push({
+    id: pageObj.id,
+    title: pageToFrontmatter(pageObj).title ?? "",
+    url: pageObj.url,
+    depth: currentDepth,
+    lastEdited: pageObj.last_edited_time,
+    markdown,
+  });
+  ctx?.onProgress?.(`Read ${pages.length} pages`);
 
   if (currentDepth + 1 >= maxDepth) return;
 
   // 子ページを取得して再帰
   const children = await listChildren(pageId);
   for (const child of children) {
-    await readRecursive(client, child.id, maxDepth, currentDepth + 1, parts);
+    await readRecursive(client, child.id, maxDepth, currentDepth + 1, pages, ctx);
   }
 }
@@ -3,15 +3,20 @@
  */
 import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { extractId, isNotionId } from "../notion/helpers.js";
 import {
-  getDatabaseDataSourceId,
+  dataSourceOf,
+  getDatabaseInfo,
   getDataSource,
-  resolveByName,
-  getClient,
+  resolveTarget,
+  updateDataSourceProperties,
+  type DatabaseInfo,
 } from "../notion/client.js";
+import { clearCache } from "../notion/cache.js";
 import { extractDatabaseSchema } from "../converter/frontmatter.js";
 import { formatError, NotionMcpError } from "../errors.js";
+import { assertAllowed } from "../permissions.js";
+import { withWorkspace } from "../notion/workspace.js";
+import { refreshParam, workspaceParam } from "./shared.js";
 
 const PROPERTY_TYPES = [
   "title", "rich_text", "number", "select", "multi_select",
@@ -28,6 +33,7 @@ const DESCRIPTION = `View or modify database schema (columns/properties).
 ### "list" (default) — View current schema
   schema({ database: "Task Board" })
   Returns: property names, types, and select/multi_select options.
+  For a database with several data sources, every data source is listed. Pick one with "Database / Data source" (e.g. "CRM / Leads") or a data source ID; add/remove/rename require one.
 
 ### "add" — Add a new property
   schema({ database: "Task Board", action: "add", property: "Priority", type: "select", options: ["Low", "Medium", "High"] })
@@ -43,87 +49,174 @@ title, rich_text, number, select, multi_select, date, checkbox, url, email, phon
 
 For select/multi_select, you can provide initial options.`;
 
+const PropertySchema = z.object({
+  name: z.string(),
+  type: z.string(),
+  options: z.array(z.string()).optional().describe("select/multi_select options or status names"),
+  format: z.string().optional().describe("number format"),
+});
+
+const OutputSchema = z.object({
+  action: z.enum(["list", "add", "remove", "rename"]),
+  dataSourceId: z.string().optional().describe("Data source that was shown or changed (omitted when listing every data source)"),
+  databaseId: z.string().optional(),
+  title: z.string().optional(),
+  properties: z.array(PropertySchema).optional().describe("Current schema (list action)"),
+  dataSources: z
+    .array(
+      z.object({
+        id: z.string(),
+        name: z.string(),
+        properties: z.array(PropertySchema).optional(),
+      })
+    )
+    .optional()
+    .describe("All data sources of the database (list action, multi-source databases)"),
+  property: z.string().optional().describe("Property that was changed"),
+  type: z.string().optional(),
+  newName: z.string().optional(),
+});
+
 export function registerSchemaTool(server: McpServer): void {
-  server.tool(
+  server.registerTool(
     "schema",
-    DESCRIPTION,
     {
-      database: z.string().describe("Database name, ID, or URL"),
-      action: z
-        .enum(["list", "add", "remove", "rename"])
-        .default("list")
-        .describe('"list" (default): show schema. "add": add property. "remove": remove property. "rename": rename property.'),
-      property: z
-        .string()
-        .optional()
-        .describe("Property name (required for add/remove/rename)"),
-      type: z
-        .string()
-        .optional()
-        .describe("Property type for add (e.g. select, number, rich_text)"),
-      name: z
-        .string()
-        .optional()
-        .describe("New name for rename action"),
-      options: z
-        .array(z.string())
-        .optional()
-        .describe("Options for select/multi_select (e.g. ['Low', 'Medium', 'High'])"),
+      description: DESCRIPTION,
+      inputSchema: {
+        database: z.string().describe("Database name, path, alias, ID, or URL"),
+        action: z
+          .enum(["list", "add", "remove", "rename"])
+          .default("list")
+          .describe('"list" (default): show schema. "add": add property. "remove": remove property. "rename": rename property.'),
+        property: z
+          .string()
+          .optional()
+          .describe("Property name (required for add/remove/rename)"),
+        type: z
+          .string()
+          .optional()
+          .describe("Property type for add (e.g. select, number, rich_text)"),
+        name: z
+          .string()
+          .optional()
+          .describe("New name for rename action"),
+        options: z
+          .array(z.string())
+          .optional()
+          .describe("Options for select/multi_select (e.g. ['Low', 'Medium', 'High'])"),
+        refresh: refreshParam,
+        workspace: workspaceParam,
+      },
+      outputSchema: OutputSchema.shape,
     },
-    async ({ database, action, property, type, name, options }) => {
-      try {
-        // DB ID を解決
-        let dbId: string;
-        if (isNotionId(database) || database.includes("notion.so") || database.includes("notion.site")) {
-          dbId = extractId(database);
-        } else {
-          const resolved = await resolveByName(database, "database");
-          dbId = resolved.id;
-        }
-
-        const dsId = await getDatabaseDataSourceId(dbId);
-
-        if (action === "list") {
-          return await listSchema(dsId);
-        }
-
-        if (!property) {
-          throw new NotionMcpError(
-            `"property" is required for action "${action}".`,
-            "MISSING_PROPERTY"
-          );
-        }
-
-        switch (action) {
-          case "add":
-            return await addProperty(dsId, property, type, options);
-          case "remove":
-            return await removeProperty(dsId, property);
-          case "rename":
-            if (!name) {
-              throw new NotionMcpError(
-                '"name" is required for rename action.',
-                "MISSING_NAME"
-              );
+    async ({ database, action, property, type, name, options, refresh, workspace }) =>
+      withWorkspace(workspace, async () => {
+        try {
+          assertAllowed("schema", action);
+          if (refresh) clearCache();
+
+          const target = await resolveTarget(database, "database", { exact: action !== "list" });
+
+          // データソースを指定せずに複数データソースのDBを指定した場合は全データソースを表示する
+          if (action === "list" && !target.dataSourceId) {
+            const info = await getDatabaseInfo(target.id).catch(() => undefined);
+            if (info && info.dataSources.length > 1) {
+              return await listAllSchemas(info);
             }
-            return await renameProperty(dsId, property, name);
-          default:
-            throw new NotionMcpError(`Unknown action: ${action}`, "INVALID_ACTION");
+          }
+
+          const { databaseId, dataSourceId: dsId } = await dataSourceOf(target);
+
+          if (action === "list") {
+            return await listSchema(dsId, await getDatabaseInfo(databaseId));
+          }
+
+          if (!property) {
+            throw new NotionMcpError(
+              `"property" is required for action "${action}".`,
+              "MISSING_PROPERTY"
+            );
+          }
+
+          switch (action) {
+            case "add":
+              return await addProperty(dsId, property, type, options);
+            case "remove":
+              return await removeProperty(dsId, property);
+            case "rename":
+              if (!name) {
+                throw new NotionMcpError(
+                  '"name" is required for rename action.',
+                  "MISSING_NAME"
+                );
+              }
+              return await renameProperty(dsId, property, name);
+            default:
+              throw new NotionMcpError(`Unknown action: ${action}`, "INVALID_ACTION");
+          }
+        } catch (error) {
+          return {
+            content: [{ type: "text" as const, text: formatError(error) }],
+            isError: true,
+          };
         }
-      } catch (error) {
-        return {
-          content: [{ type: "text" as const, text: formatError(error) }],
-          isError: true,
-        };
-      }
-    }
+      })
   );
 }
 
 // ─── List schema ───
 
-async function listSchema(dsId: string) {
+/**
+ * スキーマをMDテーブルとして返す。resources からも利用する。
+ * database を渡すと、データソースが複数ある場合にその一覧も付ける。
+ */
+export async function listSchema(dsId: string, database?: DatabaseInfo) {
   const ds = await getDataSource(dsId);
+  const { lines, title, properties } = schemaTable(ds);
+  const dataSources = database && database.dataSources.length > 1 ? database.dataSources : undefined;
+
+  if (dataSources) {
+    lines.push("", `## Data sources in ${database?.title || "this database"}`);
+    for (const source of dataSources) {
+      lines.push(`- ${source.name} (\`${source.id}\`)${source.id === dsId ? " ← shown" : ""}`);
+    }
+  }
+
+  return {
+    content: [{ type: "text" as const, text: lines.join("\n") }],
+    structuredContent: {
+      action: "list" as const,
+      dataSourceId: dsId,
+      databaseId: database?.id,
+      title,
+      properties,
+      dataSources,
+    },
+  };
+}
+
+/**
+ * 複数データソースのDBについて、全データソースのスキーマを返す。
+ */
+async function listAllSchemas(database: DatabaseInfo) {
+  const title = database.title || "Untitled";
+  const lines: string[] = [`# ${title} — ${database.dataSources.length} data sources`];
+  const dataSources = [];
+
+  for (const source of database.dataSources) {
+    const table = schemaTable(await getDataSource(source.id));
+    lines.push("", `## ${source.name} (\`${source.id}\`)`, ...table.lines.slice(1));
+    dataSources.push({ id: source.id, name: source.name, properties: table.properties });
+  }
+  lines.push("", `Use "${title} / ${database.dataSources[0].name}" or a data source ID to work with one data source.`);
+
+  return {
+    content: [{ type: "text" as const, text: lines.join("\n") }],
+    structuredContent: { action: "list" as const, databaseId: database.id, title, dataSources },
+  };
+}
+
+function schemaTable(ds: Awaited<ReturnType<typeof getDataSource>>) {
   const schema = extractDatabaseSchema(ds);
   const title = ds.title.map((t) => t.plain_text).join("") || "Untitled";
 
@@ -131,34 +224,43 @@ async function listSchema(dsId: string) {
   lines.push("| Property | Type | Details |");
   lines.push("| --- | --- | --- |");
 
-  for (const prop of schema) {
-    const details = getPropertyDetails(ds.properties[prop.name]);
-    lines.push(`| ${prop.name} | ${prop.type} | ${details} |`);
+  const properties = schema.map((prop) => ({
+    name: prop.name,
+    type: prop.type,
+    ...getPropertyDetails(ds.properties[prop.name]),
+  }));
+
+  for (const prop of properties) {
+    lines.push(`| ${prop.name} | ${prop.type} | ${formatDetails(prop)} |`);
   }
 
-  return { content: [{ type: "text" as const, text: lines.join("\n") }] };
+  return { lines, title, properties };
 }
 
-function getPropertyDetails(prop: Record<string, unknown>): string {
+function getPropertyDetails(prop: Record<string, unknown>): { options?: string[]; format?: string } {
   const type = prop.type as string;
   const data = prop[type] as Record<string, unknown> | undefined;
-  if (!data) return "-";
+  if (!data) return {};
 
   if ((type === "select" || type === "multi_select") && Array.isArray(data.options)) {
-    const opts = (data.options as Array<{ name: string }>).map((o) => o.name);
-    return opts.length > 0 ? opts.join(", ") : "-";
+    return { options: (data.options as Array<{ name: string }>).map((o) => o.name) };
   }
   if (type === "status" && "groups" in data && Array.isArray(data.groups)) {
     const statuses: string[] = [];
     for (const group of data.groups as Array<{ option_ids: string[]; name: string }>) {
       statuses.push(group.name);
     }
-    return statuses.join(", ") || "-";
+    return { options: statuses };
   }
   if (type === "number" && data.format) {
-    return String(data.format);
+    return { format: String(data.format) };
   }
-  return "-";
+  return {};
+}
+
+function formatDetails(details: { options?: string[]; format?: string }): string {
+  if (details.options && details.options.length > 0) return details.options.join(", ");
+  return details.format ?? "-";
 }
 
 // ─── Add property ───
@@ -183,16 +285,13 @@ async function addProperty(
   }
 
   const propConfig = buildPropertyConfig(type as PropertyType, options);
-  const notion = getClient();
-  await notion.dataSources.update({
-    data_source_id: dsId,
-    properties: {
-      [propertyName]: propConfig,
-    },
-  } as Parameters<typeof notion.dataSources.update>[0]);
+  await updateDataSourceProperties(dsId, {
+    [propertyName]: propConfig,
+  });
 
   return {
     content: [{ type: "text" as const, text: `Added property "${propertyName}" (${type})` }],
+    structuredContent: { action: "add" as const, dataSourceId: dsId, property: propertyName, type },
   };
 }
 
@@ -224,8 +323,8 @@ function buildPropertyConfig(type: PropertyType, options?: string[]): Record<str
 // ─── Remove property ───
 
 async function removeProperty(dsId: string, propertyName: string) {
-  // 存在確認
-  const ds = await getDataSource(dsId);
+  // 存在確認（キャッシュにない場合は取り直して確認する）
+  const ds = await getDataSource(dsId, { properties: [propertyName] });
   if (!(propertyName in ds.properties)) {
     throw new NotionMcpError(
       `Property "${propertyName}" not found in database.`,
@@ -233,23 +332,20 @@ async function removeProperty(dsId: string, propertyName: string) {
     );
   }
 
-  const notion = getClient();
-  await notion.dataSources.update({
-    data_source_id: dsId,
-    properties: {
-      [propertyName]: null,
-    },
-  } as Parameters<typeof notion.dataSources.update>[0]);
+  await updateDataSourceProperties(dsId, {
+    [propertyName]: null,
+  });
 
   return {
     content: [{ type: "text" as const, text: `Removed property "${propertyName}"` }],
+    structuredContent: { action: "remove" as const, dataSourceId: dsId, property: propertyName },
   };
 }
 
 // ─── Rename property ───
 
 async function renameProperty(dsId: string, propertyName: string, newName: string) {
-  const ds = await getDataSource(dsId);
+  const ds = await getDataSource(dsId, { properties: [propertyName] });
   if (!(propertyName in ds.properties)) {
     throw new NotionMcpError(
       `Property "${propertyName}" not found in database.`,
@@ -257,15 +353,12 @@ async function renameProperty(dsId: string, propertyName: string, newName: strin
     );
   }
 
-  const notion = getClient();
-  await notion.dataSources.update({
-    data_source_id: dsId,
-    properties: {
-      [propertyName]: { name: newName },
-    },
-  } as Parameters<typeof notion.dataSources.update>[0]);
+  await updateDataSourceProperties(dsId, {
+    [propertyName]: { name: newName },
+  });
 
   return {
     content: [{ type: "text" as const, text: `Renamed "${propertyName}" → "${newName}"` }],
+    structuredContent: { action: "rename" as const, dataSourceId: dsId, property: propertyName, newName },
   };
 }
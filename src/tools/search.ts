@@ -4,13 +4,36 @@
 import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import type { PageObjectResponse } from "@notionhq/client/build/src/api-endpoints.js";
-import { search, type SearchResult } from "../notion/client.js";
+import { getDatabaseInfo, search, type SearchResult } from "../notion/client.js";
 import { formatError } from "../errors.js";
+import { withWorkspace } from "../notion/workspace.js";
+import { workspaceParam } from "./shared.js";
+
+const OutputSchema = z.object({
+  query: z.string(),
+  results: z.array(
+    z.object({
+      id: z.string(),
+      object: z.enum(["page", "database"]),
+      title: z.string(),
+      url: z.string().optional(),
+      icon: z.string().optional(),
+      lastEdited: z.string().optional(),
+      dataSources: z
+        .array(z.object({ id: z.string(), name: z.string() }))
+        .optional()
+        .describe("Data sources of the database (use one by name, e.g. \"CRM / Leads\", or by ID)"),
+    })
+  ),
+});
+
+type SearchOutput = z.infer<typeof OutputSchema>;
 
 export function registerSearchTool(server: McpServer): void {
-  server.tool(
+  server.registerTool(
     "search",
-    `Search the Notion workspace by title keyword. Returns a Markdown list with page/database IDs, titles, and metadata.
+    {
+      description: `Search the Notion workspace by title keyword. Returns a Markdown list with page/database IDs, titles, and metadata.
 
 Use the returned IDs with other tools: read (to get full content), write (to update), list (to query a database), delete, or move.
 
@@ -19,69 +42,142 @@ Example output:
 1. **MCP Design Doc** (📝 page)
    - ID: \`abc123\`
    - Last edited: 2026-02-19
-2. **Task Board** (database)
-   - ID: \`def456\``,
-    {
-      query: z.string().describe("Search keyword (matched against page/database titles)"),
-      filter: z
-        .enum(["page", "database", "all"])
-        .default("all")
-        .describe('Filter by type: "page", "database", or "all" (default)'),
-      limit: z
-        .number()
-        .int()
-        .min(1)
-        .max(100)
-        .default(10)
-        .describe("Max results (default: 10)"),
+2. **CRM** (database)
+   - ID: \`def456\`
+   - Data sources: Leads (\`ghi789\`), Contacts (\`jkl012\`)`,
+      inputSchema: {
+        query: z.string().describe("Search keyword (matched against page/database titles)"),
+        filter: z
+          .enum(["page", "database", "all"])
+          .default("all")
+          .describe('Filter by type: "page", "database", or "all" (default)'),
+        limit: z
+          .number()
+          .int()
+          .min(1)
+          .max(100)
+          .default(10)
+          .describe("Max results (default: 10)"),
+        workspace: workspaceParam,
+      },
+      outputSchema: OutputSchema.shape,
     },
-    async ({ query, filter, limit }) => {
-      try {
-        const filterType = filter === "all" ? undefined : filter;
-        const results = await search({ query, filter: filterType, limit });
+    async ({ query, filter, limit, workspace }) =>
+      withWorkspace(workspace, async () => {
+        try {
+          const filterType = filter === "all" ? undefined : filter;
+          const results = await groupDataSources(await search({ query, filter: filterType, limit }));
+          const structured: SearchOutput = {
+            query,
+            results: results.map((result) =>
+              isPageResult(result)
+                ? {
+                    id: result.id,
+                    object: "page" as const,
+                    title: getPageTitle(result),
+                    url: result.url,
+                    icon: result.icon?.type === "emoji" ? result.icon.emoji : undefined,
+                    lastEdited: result.last_edited_time,
+                  }
+                : {
+                    id: result.id,
+                    object: "database" as const,
+                    title: result.title || "Untitled",
+                    url: result.url || undefined,
+                    dataSources: result.dataSources,
+                  }
+            ),
+          };
+
+          if (results.length === 0) {
+            return {
+              content: [
+                { type: "text", text: `# Search results: "${query}" (0 results)\n\nNo results found.` },
+              ],
+              structuredContent: structured,
+            };
+          }
+
+          const lines: string[] = [`# Search results: "${query}" (${results.length} results)\n`];
+
+          results.forEach((result, i) => {
+            if (isPageResult(result)) {
+              const title = getPageTitle(result);
+              const icon = getPageIcon(result);
+              lines.push(`${i + 1}. **${title}** (${icon} page)`);
+              lines.push(`   - ID: \`${result.id}\``);
+              lines.push(`   - Last edited: ${result.last_edited_time.slice(0, 10)}`);
+              lines.push(`   - URL: ${result.url}`);
+            } else {
+              lines.push(`${i + 1}. **${result.title || "Untitled"}** (database)`);
+              lines.push(`   - ID: \`${result.id}\``);
+              if (result.dataSources.length > 1) {
+                const sources = result.dataSources.map((ds) => `${ds.name} (\`${ds.id}\`)`).join(", ");
+                lines.push(`   - Data sources: ${sources}`);
+              }
+              if (result.url) {
+                lines.push(`   - URL: ${result.url}`);
+              }
+            }
+            lines.push("");
+          });
 
-        if (results.length === 0) {
           return {
-            content: [
-              { type: "text", text: `# Search results: "${query}" (0 results)\n\nNo results found.` },
-            ],
+            content: [{ type: "text", text: lines.join("\n") }],
+            structuredContent: structured,
+          };
+        } catch (error) {
+          return {
+            content: [{ type: "text", text: formatError(error) }],
+            isError: true,
           };
         }
+      })
+  );
+}
 
-        const lines: string[] = [`# Search results: "${query}" (${results.length} results)\n`];
-
-        results.forEach((result, i) => {
-          if (isPageResult(result)) {
-            const title = getPageTitle(result);
-            const icon = getPageIcon(result);
-            lines.push(`${i + 1}. **${title}** (${icon} page)`);
-            lines.push(`   - ID: \`${result.id}\``);
-            lines.push(`   - Last edited: ${result.last_edited_time.slice(0, 10)}`);
-            lines.push(`   - URL: ${result.url}`);
-          } else {
-            lines.push(`${i + 1}. **${result.title || "Untitled"}** (database)`);
-            lines.push(`   - ID: \`${result.id}\``);
-            if (result.url) {
-              lines.push(`   - URL: ${result.url}`);
-            }
-          }
-          lines.push("");
-        });
-
-        return {
-          content: [{ type: "text", text: lines.join("\n") }],
-        };
-      } catch (error) {
-        return {
-          content: [{ type: "text", text: formatError(error) }],
-          isError: true,
-        };
-      }
+interface DatabaseHit {
+  object: "database";
+  id: string;
+  title: string;
+  url: string;
+  dataSources: Array<{ id: string; name: string }>;
+}
+
+/**
+ * 検索はデータソース単位で返るので、同じDBのデータソースを1件にまとめてDBのIDで返す。
+ * DBを取得できない場合はデータソースをそのまま返す。
+ */
+async function groupDataSources(results: SearchResult[]): Promise<Array<PageObjectResponse | DatabaseHit>> {
+  const grouped: Array<PageObjectResponse | DatabaseHit> = [];
+  const seen = new Set<string>();
+
+  for (const result of results) {
+    if (isPageResult(result)) {
+      grouped.push(result);
+      continue;
     }
-  );
+    if (result.object !== "data_source") continue;
+
+    const databaseId = result.databaseId ?? result.id;
+    if (seen.has(databaseId)) continue;
+    seen.add(databaseId);
+
+    const info = result.databaseId
+      ? await getDatabaseInfo(result.databaseId).catch(() => undefined)
+      : undefined;
+    grouped.push({
+      object: "database",
+      id: info?.id ?? result.id,
+      title: info?.title || result.title,
+      url: result.url,
+      dataSources: info?.dataSources ?? [{ id: result.id, name: result.title }],
+    });
+  }
+  return grouped;
 }
 
-function isPageResult(r: SearchResult): r is PageObjectResponse {
+function isPageResult(r: SearchResult | DatabaseHit): r is PageObjectResponse {
   return r.object === "page" && "properties" in r;
 }
 
@@ -0,0 +1,16 @@
+/**
+ * ツール間で共有するパラメータ定義
+ */
+import { z } from "zod";
+
+/** 全ツール共通: 操作対象のワークスペース（認証プロファイル） */
+export const workspaceParam = z
+  .string()
+  .optional()
+  .describe('Workspace profile to use (e.g. "work" → NOTION_API_KEY_WORK). Defaults to NOTION_API_KEY.');
+
+/** スキーマを扱うツール共通: キャッシュを使わずに取り直す */
+export const refreshParam = z
+  .boolean()
+  .optional()
+  .describe("Ignore cached schemas and name lookups and fetch them again from Notion (default: false)");
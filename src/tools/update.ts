@@ -3,29 +3,36 @@
  */
 import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { extractId, isNotionId } from "../notion/helpers.js";
 import {
   getPage,
   updatePage,
   getDatabaseDataSourceId,
   getDataSource,
-  resolveByName,
+  resolveTarget,
 } from "../notion/client.js";
 import {
   frontmatterToProperties,
   buildPageProperties,
   extractDatabaseSchema,
+  extractPropertyValues,
+  findSkippedProperties,
+  diffProperties,
 } from "../converter/frontmatter.js";
-import type { DocumentFrontmatter } from "../converter/types.js";
+import type { DocumentFrontmatter, PropertyChange, SkippedProperty } from "../converter/types.js";
+import { assertNotEditedSince } from "../notion/conflict.js";
 import { formatError } from "../errors.js";
+import { withWorkspace } from "../notion/workspace.js";
+import { workspaceParam } from "./shared.js";
 
 const DESCRIPTION = `Quickly update page properties without rewriting content. Much simpler than the write tool for property-only changes.
 
 The page content (blocks) is never touched — only properties are updated.
 
 ## Parameters
-- page: Page ID, URL, or name
+- page: Page ID, URL, alias, name, or path (e.g. "Projects/Alpha/Notes")
 - properties: Key-value object of properties to set
+- lastEdited: Optional last_edited value from read; fails with CONFLICT if someone edited the page since (override with overwrite: true)
+- dryRun: Return the old and new values, and properties that would be ignored, without updating anything
 
 ## Examples
 
@@ -45,78 +52,139 @@ Supported value types:
 - Multi-select: ["tag1", "tag2"]
 - URL: "https://..."`;
 
+const OutputSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  updated: z.array(z.string()).describe("Property names that were sent"),
+  dryRun: z.boolean().optional().describe("true if this was a dry run and nothing was updated"),
+  changes: z
+    .array(z.object({ name: z.string(), before: z.unknown(), after: z.unknown() }))
+    .optional()
+    .describe("Dry run: properties whose value would change"),
+  skipped: z
+    .array(z.object({ name: z.string(), reason: z.string() }))
+    .optional()
+    .describe("Dry run: properties that would be ignored"),
+});
+
 export function registerUpdateTool(server: McpServer): void {
-  server.tool(
+  server.registerTool(
     "update",
-    DESCRIPTION,
     {
-      page: z.string().describe("Page ID, URL, or name"),
-      properties: z
-        .record(z.unknown())
-        .describe('Properties to update as key-value pairs (e.g. { "Status": "Done", "Priority": "High" })'),
+      description: DESCRIPTION,
+      inputSchema: {
+        page: z.string().describe("Page ID, URL, alias, name, or path (e.g. 'Projects/Alpha/Notes')"),
+        properties: z
+          .record(z.unknown())
+          .describe('Properties to update as key-value pairs (e.g. { "Status": "Done", "Priority": "High" })'),
+        lastEdited: z
+          .string()
+          .optional()
+          .describe("last_edited from read. If the page was edited after this time, the update fails with CONFLICT."),
+        overwrite: z
+          .boolean()
+          .default(false)
+          .describe("Update even if the page was edited after lastEdited"),
+        dryRun: z
+          .boolean()
+          .default(false)
+          .describe("Return the changes without updating the page"),
+        workspace: workspaceParam,
+      },
+      outputSchema: OutputSchema.shape,
     },
-    async ({ page, properties }) => {
-      try {
-        // ページIDの解決
-        let pageId: string;
-        if (isNotionId(page) || page.includes("notion.so") || page.includes("notion.site")) {
-          pageId = extractId(page);
-        } else {
-          const resolved = await resolveByName(page, "page");
-          pageId = resolved.id;
-        }
+    async ({ page, properties, lastEdited, overwrite, dryRun, workspace }) =>
+      withWorkspace(workspace, async () => {
+        try {
+          // ページIDの解決
+          const { id: pageId } = await resolveTarget(page, "page", { exact: true });
+
+          // ページ取得してスキーマ解決
+          const existingPage = await getPage(pageId);
+          // read の後に誰かが編集していたら上書きしない
+          if (!overwrite) await assertNotEditedSince(existingPage, lastEdited);
+          const { properties: resolvedProperties, skipped } = await resolveUpdateProperties(
+            properties,
+            existingPage.parent
+          );
+
+          // タイトル取得
+          const titleProp = Object.values(existingPage.properties).find(
+            (p) => p.type === "title"
+          );
+          const title =
+            titleProp?.type === "title"
+              ? titleProp.title.map((t) => t.plain_text).join("")
+              : "Untitled";
 
-        // ページ取得してスキーマ解決
-        const existingPage = await getPage(pageId);
-        const resolvedProperties = await resolveUpdateProperties(
-          properties,
-          existingPage.parent
-        );
-
-        await updatePage(pageId, { properties: resolvedProperties });
-
-        // タイトル取得
-        const titleProp = Object.values(existingPage.properties).find(
-          (p) => p.type === "title"
-        );
-        const title =
-          titleProp?.type === "title"
-            ? titleProp.title.map((t) => t.plain_text).join("")
-            : "Untitled";
-
-        const keys = Object.keys(properties).join(", ");
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Updated "${title}" (${pageId}): ${keys}`,
-            },
-          ],
-        };
-      } catch (error) {
-        return {
-          content: [{ type: "text", text: formatError(error) }],
-          isError: true,
-        };
-      }
-    }
+          if (dryRun) {
+            const changes = diffProperties(extractPropertyValues(existingPage), { properties }, resolvedProperties);
+            return {
+              content: [{ type: "text", text: formatPreview(title, pageId, changes, skipped) }],
+              structuredContent: { id: pageId, title, updated: [], dryRun: true, changes, skipped },
+            };
+          }
+
+          await updatePage(pageId, { properties: resolvedProperties });
+
+          const keys = Object.keys(properties).join(", ");
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Updated "${title}" (${pageId}): ${keys}`,
+              },
+            ],
+            structuredContent: { id: pageId, title, updated: Object.keys(properties) },
+          };
+        } catch (error) {
+          return {
+            content: [{ type: "text", text: formatError(error) }],
+            isError: true,
+          };
+        }
+      })
   );
 }
 
+/**
+ * dry run の結果をテキストにする。
+ */
+function formatPreview(
+  title: string,
+  pageId: string,
+  changes: PropertyChange[],
+  skipped: SkippedProperty[]
+): string {
+  const lines = [`Dry run (nothing was updated): "${title}" (${pageId})`];
+  for (const { name, before, after } of changes) {
+    lines.push(`  ${name}: ${JSON.stringify(before)} → ${JSON.stringify(after)}`);
+  }
+  if (changes.length === 0) lines.push("  No changes.");
+  if (skipped.length > 0) {
+    lines.push("Skipped properties:");
+    for (const { name, reason } of skipped) lines.push(`  ${name}: ${reason}`);
+  }
+  return lines.join("\n");
+}
+
 async function resolveUpdateProperties(
   properties: Record<string, unknown>,
   parent: { type: string; [key: string]: unknown }
-): Promise<Record<string, unknown>> {
+): Promise<{ properties: Record<string, unknown>; skipped: SkippedProperty[] }> {
   // FM形式に変換して既存の変換ロジックを使う
   const fm: DocumentFrontmatter = { properties: properties as Record<string, unknown> };
 
+  // キャッシュ済みスキーマに無いプロパティがあれば取り直す
+  const names = Object.keys(properties);
+  let dsId: string;
   if (parent.type === "database_id" && typeof parent.database_id === "string") {
-    const dsId = await getDatabaseDataSourceId(parent.database_id);
-    const ds = await getDataSource(dsId);
-    return frontmatterToProperties(fm, extractDatabaseSchema(ds));
+    dsId = await getDatabaseDataSourceId(parent.database_id);
   } else if (parent.type === "data_source_id" && typeof parent.data_source_id === "string") {
-    const ds = await getDataSource(parent.data_source_id);
-    return frontmatterToProperties(fm, extractDatabaseSchema(ds));
+    dsId = parent.data_source_id;
+  } else {
+    return { properties: buildPageProperties(fm), skipped: findSkippedProperties(fm, undefined) };
   }
-  return buildPageProperties(fm);
+  const schema = extractDatabaseSchema(await getDataSource(dsId, { properties: names }));
+  return { properties: frontmatterToProperties(fm, schema), skipped: findSkippedProperties(fm, schema) };
 }
@@ -3,27 +3,71 @@
  */
 import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { extractId, isNotionId } from "../notion/helpers.js";
+import { extractId, isNotionId, blockText } from "../notion/helpers.js";
+import { normalizeTitle } from "../notion/match.js";
 import {
   getPage,
   createPage,
   updatePage,
-  deleteAllBlocks,
   appendBlocks,
   prependBlocks,
+  insertBlocks,
+  getChildBlocks,
   getDatabaseDataSourceId,
   getDataSource,
-  resolveByName,
+  resolveTarget,
+  resolveDataSource,
+  queryDataSource,
+  archivePage,
+  deleteBlock,
 } from "../notion/client.js";
+import {
+  planBlockSync,
+  applyBlockSync,
+  describeBlockSync,
+  describeBlocks,
+  snapshotBlockSync,
+  restoreBlockSync,
+  assertRestorable,
+  type BlockChanges,
+  type BlockScope,
+  type BlockSnapshot,
+  type BlockSyncPlan,
+} from "../notion/diff.js";
+import { assertNotEditedSince } from "../notion/conflict.js";
 import { parseMarkdown, markdownToNotionBlocks } from "../converter/to-notion.js";
 import {
   frontmatterToProperties,
   buildPageProperties,
   extractDatabaseSchema,
+  extractPropertyValues,
+  pageToFrontmatter,
+  findSkippedProperties,
+  diffProperties,
 } from "../converter/frontmatter.js";
-import type { DocumentFrontmatter } from "../converter/types.js";
-import type { BlockObjectRequest } from "@notionhq/client/build/src/api-endpoints.js";
+import type {
+  DocumentFrontmatter,
+  NotionPropertyType,
+  PropertyChange,
+  SkippedProperty,
+} from "../converter/types.js";
+import { getDatabaseConfig, type WriteDefaults } from "../config.js";
+import type {
+  BlockObjectRequest,
+  BlockObjectResponse,
+  PageObjectResponse,
+} from "@notionhq/client/build/src/api-endpoints.js";
 import { formatError, NotionMcpError } from "../errors.js";
+import { assertAllowed, isActionAllowed } from "../permissions.js";
+import {
+  createOperationContext,
+  isCancelled,
+  throwIfCancelled,
+  type OperationContext,
+} from "../progress.js";
+import { withWorkspace } from "../notion/workspace.js";
+import { DEFAULT_RATE_LIMIT } from "../notion/rate-limit.js";
+import { workspaceParam } from "./shared.js";
 
 const URL_PATTERN = /^https?:\/\//;
 
@@ -35,27 +79,42 @@ function buildIcon(icon: string) {
 
 const BATCH_SEPARATOR = "\n===\n";
 
-const DESCRIPTION = `Create or update Notion pages from Markdown with YAML frontmatter.
-
-Mode (default "auto"): if frontmatter has "id" → update, otherwise → create.
-
-## Batch mode
-Separate multiple pages with a line containing only "===" to create/update them in one call.
+/**
+ * バッチで同時に書き込むドキュメント数。
+ * レート制御の burst と同じにして、待ち行列に並ぶだけのリクエストを増やさない。
+ */
+const BATCH_CONCURRENCY = DEFAULT_RATE_LIMIT.burst;
 
-## Frontmatter fields
+/** frontmatterの書式説明。prompts からも参照する */
+export const FRONTMATTER_REFERENCE = `## Frontmatter fields
 
 | Field | Create | Update | Description |
 |-------|--------|--------|-------------|
 | id | - | required | Page ID to update |
+| key | optional | - | Property whose value identifies an existing row (upsert, see below) |
 | title | recommended | optional | Page title |
-| parent | required* | ignored | Parent page name or ID |
-| database | required* | ignored | Database name or ID (*either parent or database) |
+| parent | required* | ignored | Parent page name, path (e.g. Projects/Alpha), alias, or ID |
+| database | required* | ignored | Database name, path, alias, or ID; "CRM / Leads" or a data source ID picks one data source (*either parent or database) |
 | icon | optional | optional | Emoji (e.g. 📋) or image URL |
 | cover | optional | optional | Cover image URL |
 | properties | optional | optional | DB properties (see below) |
 
 Properties are auto-matched to the database schema. Use the exact property name as key.
-Read-only fields from read output (url, created, last_edited, formula, etc.) are safely ignored.
+When creating in a database configured in .better-notion.json, its default icon/cover/properties fill in omitted fields.
+Read-only fields from read output (url, created, formula, etc.) are safely ignored.
+last_edited from read is checked on update: if the page was edited after it, the update fails with CONFLICT (pass overwrite: true to write anyway).
+key (or the match option) turns a database create into an upsert: the row whose key property equals the document's value is updated, or a new row is created if there is none. Several matching rows fail with DUPLICATE.`;
+
+const DESCRIPTION = `Create or update Notion pages from Markdown with YAML frontmatter.
+
+Mode (default "auto"): if frontmatter has "id" → update, otherwise → create.
+
+## Batch mode
+Separate multiple pages with a line containing only "===" to create/update them in one call.
+Documents are written concurrently (results keep the input order) and failed documents don't stop the others. With atomic: true, all documents are validated first and nothing is written if any fails;
+if a write fails midway, pages created earlier in the batch are archived and pages updated earlier are restored.
+
+${FRONTMATTER_REFERENCE}
 
 ## Examples
 
@@ -95,11 +154,12 @@ properties:
   Status: Done
 ---
 ## New content
-Body replaces all existing blocks.
+Body replaces the existing content. Only blocks that changed are updated, inserted or deleted;
+unchanged blocks keep their IDs and inline comments.
 \`\`\`
 
 ### Append to an existing page (add content without rewriting):
-Use position: "append" to add content to the end, or "prepend" to add to the beginning.
+Use position: "append" to add content to the end, "prepend" to add to the beginning, or { after: "Heading text" } (or { after: "<block id>" }) to insert right after a heading or block.
 Only the new content needs to be provided — existing content is preserved.
 \`\`\`
 ---
@@ -108,6 +168,20 @@ id: abc123-def456
 ## New section added at the end
 \`\`\`
 
+### Edit one section (section: "Action Items"):
+Limits replace/append/prepend to the blocks under that heading, up to the next heading of the same or higher level.
+position: "delete" empties the section. The heading and the rest of the page are kept.
+\`\`\`
+---
+id: abc123-def456
+---
+- [ ] Send the minutes
+\`\`\`
+
+### Preview before writing:
+Pass dryRun: true to get the property changes (old → new), properties that would be ignored, and body changes
+("+" insert, "-" delete, "~" update) without writing anything.
+
 ### Batch create (multiple pages in one call):
 \`\`\`
 ---
@@ -128,71 +202,529 @@ Task 2 details
 \`\`\`
 `;
 
+const WriteResultSchema = z.object({
+  index: z.number().describe("1-based position of the document in the batch"),
+  status: z
+    .enum(["created", "updated", "appended", "prepended", "inserted", "error", "cancelled", "rolled_back", "skipped"])
+    .describe('"rolled_back": written, then undone because a later document of an atomic batch failed. "skipped": not written because another document of an atomic batch failed'),
+  id: z.string().optional(),
+  title: z.string().optional(),
+  url: z.string().optional(),
+  section: z.string().optional().describe("Heading of the section that was edited"),
+  changes: z
+    .object({ unchanged: z.number(), updated: z.number(), inserted: z.number(), deleted: z.number() })
+    .optional()
+    .describe("Block changes made by a replace update"),
+  dryRun: z.boolean().optional().describe("true if this was a dry run and nothing was written"),
+  preview: z
+    .object({
+      properties: z
+        .array(z.object({ name: z.string(), before: z.unknown(), after: z.unknown() }))
+        .describe("Properties whose value would change"),
+      skipped: z
+        .array(z.object({ name: z.string(), reason: z.string() }))
+        .describe("Properties in the frontmatter that would be ignored"),
+      blocks: z.array(z.string()).describe('Body changes: "+" insert, "-" delete, "~" update'),
+    })
+    .optional()
+    .describe("What a dry run would change"),
+  error: z.string().optional(),
+});
+
+const OutputSchema = z.object({
+  total: z.number(),
+  succeeded: z.number(),
+  failed: z.number(),
+  results: z.array(WriteResultSchema),
+});
+
+type WriteDocumentResult = z.infer<typeof WriteResultSchema>;
+
+/** 本文の書き込み位置。after は見出しテキストまたはブロックID */
+type WritePosition = "replace" | "append" | "prepend" | "delete" | { after: string };
+
+/** バッチ内の全ドキュメントに共通の書き込みオプション */
+interface WriteOptions {
+  mode: "create" | "update" | "auto";
+  position: WritePosition;
+  /** 書き込み先を絞る見出し（テキストまたはブロックID） */
+  section?: string;
+  /** last_edited より後の編集を上書きしてよいか */
+  overwrite: boolean;
+  /** 置換で Markdown にできないブロックを削除してよいか */
+  force: boolean;
+  /** 書き込まずに変更内容だけを返す */
+  dryRun: boolean;
+  /** id の無いドキュメントで既存の行を探すプロパティ（frontmatter の key が優先） */
+  match?: { property: string };
+  /** 失敗時に取り消せない書き込みを検証の段階で止める */
+  atomic: boolean;
+}
+
+/** 1ドキュメント分の書き込み結果 */
+interface WriteResult {
+  status: "created" | "updated" | "appended" | "prepended" | "inserted";
+  /** dry run の新規作成では未定 */
+  id?: string;
+  title?: string;
+  url?: string;
+  /** section を指定した場合の見出しのテキスト */
+  section?: string;
+  changes?: BlockChanges;
+  dryRun?: boolean;
+  preview?: WritePreview;
+}
+
+/** dry run で返す変更内容 */
+interface WritePreview {
+  properties: PropertyChange[];
+  skipped: SkippedProperty[];
+  blocks: string[];
+}
+
 export function registerWriteTool(server: McpServer): void {
-  server.tool(
+  server.registerTool(
     "write",
-    DESCRIPTION,
     {
-      markdown: z.string().describe("Markdown with YAML frontmatter. Separate multiple pages with '===' on its own line. See tool description for format."),
-      mode: z
-        .enum(["create", "update", "auto"])
-        .default("auto")
-        .describe('"auto" (default): create if no id, update if id present. "create": force create. "update": force update (requires id).'),
-      position: z
-        .enum(["replace", "append", "prepend"])
-        .default("replace")
-        .describe('"replace" (default): replace all content. "append": add to end (efficient, no need to send existing content). "prepend": add to beginning. Only affects updates.'),
+      description: DESCRIPTION,
+      inputSchema: {
+        markdown: z.string().describe("Markdown with YAML frontmatter. Separate multiple pages with '===' on its own line. See tool description for format."),
+        mode: z
+          .enum(["create", "update", "auto"])
+          .default("auto")
+          .describe('"auto" (default): create if no id, update if id present. "create": force create. "update": force update (requires id).'),
+        position: z
+          .union([
+            z.enum(["replace", "append", "prepend", "delete"]),
+            z.object({
+              after: z.string().describe('Heading text (e.g. "Notes" or "## Notes") or block ID to insert after'),
+            }),
+          ])
+          .default("replace")
+          .describe('"replace" (default): replace all content, touching only the blocks that changed. "append": add to end (efficient, no need to send existing content). "prepend": add to beginning. { after: "Heading" }: insert right after a top-level heading or block. "delete": remove the blocks of a section (requires section). Existing blocks are kept as is except with "replace". Only affects updates.'),
+        section: z
+          .string()
+          .optional()
+          .describe('Top-level heading text (e.g. "Action Items" or "## Action Items") or heading block ID. Limits "replace", "append", "prepend" and "delete" to the blocks under that heading, up to the next heading of the same or higher level. The heading itself is kept.'),
+        overwrite: z
+          .boolean()
+          .default(false)
+          .describe('Update even if the page was edited after the "last_edited" time in the frontmatter (from read). Without it, such updates fail with CONFLICT.'),
+        force: z
+          .boolean()
+          .default(false)
+          .describe('Let "replace" delete blocks that Markdown cannot represent (child pages, inline databases, synced blocks, columns, uploaded files). Without it, such a replace fails and changes nothing.'),
+        dryRun: z
+          .boolean()
+          .default(false)
+          .describe("Resolve everything and return the property and body changes without writing anything. Fails with the same errors as a real write."),
+        match: z
+          .object({
+            property: z.string().describe('Property that identifies a row, e.g. "External ID". Text, number, select, status, URL, email, phone or ID properties'),
+          })
+          .optional()
+          .describe('Upsert: for documents without "id", update the database row whose property equals the document\'s value, or create it if there is none. Several matching rows fail with DUPLICATE. A "key" frontmatter field overrides it per document.'),
+        atomic: z
+          .boolean()
+          .default(false)
+          .describe("All or nothing: validate every document first and write none if any fails; if a write fails midway, archive the pages created and restore the pages updated earlier in the batch."),
+        workspace: workspaceParam,
+      },
+      outputSchema: OutputSchema.shape,
     },
-    async ({ markdown, mode, position }) => {
-      // バッチ分割
-      const documents = markdown.split(BATCH_SEPARATOR).map((s) => s.trim()).filter(Boolean);
-
-      if (documents.length === 1) {
-        // 単一ページ
-        try {
-          const result = await processSingleWrite(documents[0], mode, position);
-          return { content: [{ type: "text", text: result }] };
-        } catch (error) {
-          return {
-            content: [{ type: "text", text: formatError(error) }],
-            isError: true,
-          };
-        }
-      }
+    async ({ markdown, mode, position, section, overwrite, force, dryRun, match, atomic, workspace }, extra) =>
+      withWorkspace(workspace, async () => {
+        const ctx = createOperationContext(extra);
+        const options: WriteOptions = { mode, position, section, overwrite, force, dryRun, match, atomic };
+
+        // バッチ分割
+        const documents = markdown.split(BATCH_SEPARATOR).map((s) => s.trim()).filter(Boolean);
+
+        if (atomic) return await processAtomicBatch(documents, options, ctx);
 
-      // バッチ処理
-      const results: string[] = [];
-      let errors = 0;
-      for (let i = 0; i < documents.length; i++) {
-        try {
-          const result = await processSingleWrite(documents[i], mode, position);
-          results.push(`${i + 1}. ${result}`);
-        } catch (error) {
-          errors++;
-          results.push(`${i + 1}. ERROR: ${formatError(error)}`);
+        if (documents.length === 1) {
+          // 単一ページ
+          try {
+            const result = await processSingleWrite(documents[0], options, ctx);
+            return {
+              content: [{ type: "text", text: formatWriteResult(result) }],
+              structuredContent: buildOutput([{ index: 1, ...result }]),
+            };
+          } catch (error) {
+            return {
+              content: [{ type: "text", text: formatError(error) }],
+              isError: true,
+            };
+          }
         }
-      }
 
-      const summary = `Batch complete: ${documents.length - errors}/${documents.length} succeeded.\n\n${results.join("\n")}`;
+        // バッチ処理（並行して書き込み、結果は入力順に並べる）
+        let processed = 0;
+        const outcomes = new Array<{ line: string; result: WriteDocumentResult }>(documents.length);
+        const writeDocument = async (document: string, i: number) => {
+          if (ctx.signal?.aborted) {
+            // キャンセル: まだ始めていないドキュメントは処理しない
+            return { line: `${i + 1}. CANCELLED`, result: { index: i + 1, status: "cancelled" } as WriteDocumentResult };
+          }
+          let outcome: { line: string; result: WriteDocumentResult };
+          try {
+            const result = await processSingleWrite(document, options, ctx);
+            outcome = { line: `${i + 1}. ${formatWriteResult(result)}`, result: { index: i + 1, ...result } };
+          } catch (error) {
+            const status = isCancelled(error) ? "cancelled" : "error";
+            outcome = {
+              line: `${i + 1}. ${status === "cancelled" ? "CANCELLED" : "ERROR"}: ${formatError(error)}`,
+              result: { index: i + 1, status, error: formatError(error) },
+            };
+          }
+          ctx.onProgress?.(`Processed ${++processed}/${documents.length} documents`);
+          return outcome;
+        };
+        await mapConcurrent(batchLanes(documents, options), BATCH_CONCURRENCY, async (lane) => {
+          for (const i of lane) outcomes[i] = await writeDocument(documents[i], i);
+        });
+        const results = outcomes.map((o) => o.line);
+        const documentResults = outcomes.map((o) => o.result);
+        const errors = documentResults.filter((r) => r.status === "error" || r.status === "cancelled").length;
+
+        const summary = `Batch complete: ${documents.length - errors}/${documents.length} succeeded.\n\n${results.join("\n")}`;
+        return {
+          content: [{ type: "text", text: summary }],
+          structuredContent: buildOutput(documentResults),
+          ...(errors > 0 ? { isError: true } : {}),
+        };
+      })
+  );
+}
+
+/** 書き込めなかった（または取り消した）ことを表す状態 */
+const FAILED_STATUSES = new Set(["error", "cancelled", "rolled_back", "skipped"]);
+
+function buildOutput(results: WriteDocumentResult[]): z.infer<typeof OutputSchema> {
+  const failed = results.filter((r) => FAILED_STATUSES.has(r.status)).length;
+  return {
+    total: results.length,
+    succeeded: results.length - failed,
+    failed,
+    results,
+  };
+}
+
+function formatWriteResult(result: WriteResult): string {
+  if (result.preview) return formatPreview(result, result.preview);
+  const target = `${result.section !== undefined ? `section "${result.section}" of ` : ""}"${result.title ?? result.id}" (${result.id})`;
+  switch (result.status) {
+    case "created":
+      return `Created: "${result.title ?? "Untitled"}" (${result.id})\nURL: ${result.url}`;
+    case "appended":
+      return `Appended to: ${target}`;
+    case "prepended":
+      return `Prepended to: ${target}`;
+    case "inserted":
+      return `Inserted into: ${target}`;
+    default: {
+      const updated = `Updated: ${target}`;
+      return result.changes ? `${updated}\n${formatChanges(result.changes)}` : updated;
+    }
+  }
+}
+
+function formatChanges(changes: BlockChanges): string {
+  return `Blocks: ${changes.updated} updated, ${changes.inserted} inserted, ${changes.deleted} deleted, ${changes.unchanged} unchanged`;
+}
+
+const PREVIEW_ACTIONS: Record<WriteResult["status"], string> = {
+  created: "create",
+  updated: "update",
+  appended: "append to",
+  prepended: "prepend to",
+  inserted: "insert into",
+};
+
+function formatPreview(result: WriteResult, preview: WritePreview): string {
+  const target =
+    result.status === "created"
+      ? `"${result.title ?? "Untitled"}"`
+      : `${result.section !== undefined ? `section "${result.section}" of ` : ""}"${result.title ?? result.id}" (${result.id})`;
+  const lines = [`Dry run (nothing was written): would ${PREVIEW_ACTIONS[result.status]} ${target}`];
+
+  if (preview.properties.length > 0) {
+    lines.push("Properties:");
+    for (const { name, before, after } of preview.properties) {
+      lines.push(`  ${name}: ${JSON.stringify(before)} → ${JSON.stringify(after)}`);
+    }
+  }
+  if (preview.skipped.length > 0) {
+    lines.push("Skipped properties:");
+    for (const { name, reason } of preview.skipped) lines.push(`  ${name}: ${reason}`);
+  }
+  if (result.changes) lines.push(formatChanges(result.changes));
+  else if (preview.blocks.length > 0) lines.push("Blocks:");
+  lines.push(...preview.blocks.map((line) => `  ${line}`));
+
+  if (lines.length === 1) lines.push("No changes.");
+  return lines.join("\n");
+}
+
+/**
+ * items を最大 limit 件ずつ並行して処理し、結果を items と同じ順に返す。
+ * fn は例外を投げないこと（投げると残りの結果を待たずに失敗する）。
+ */
+async function mapConcurrent<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i], i);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/**
+ * 並行して書き込むドキュメントの組（インデックスの列）を返す。
+ * 同じページを更新するドキュメントは書き込み順が入れ替わらないように、
+ * 同じ upsert キーのドキュメントはどちらも行を作成してしまわないように、同じ組で順に書き込む。
+ */
+function batchLanes(documents: string[], options: WriteOptions): number[][] {
+  const lanes: number[][] = [];
+  const byKey = new Map<string, number[]>();
+  documents.forEach((document, i) => {
+    const key = laneKeyOf(document, options);
+    const lane = key === undefined ? undefined : byKey.get(key);
+    if (lane) {
+      lane.push(i);
+      return;
+    }
+    lanes.push([i]);
+    if (key !== undefined) byKey.set(key, lanes[lanes.length - 1]);
+  });
+  return lanes;
+}
+
+/**
+ * 書き込み先を表すキー。更新するページの ID、upsert なら DB・キー・値
+ * （型は見ないので、title 型のキーなら title を使う）。新規作成のみなら undefined。
+ */
+function laneKeyOf(document: string, options: WriteOptions): string | undefined {
+  let fm: DocumentFrontmatter;
+  try {
+    fm = parseMarkdown(document).frontmatter;
+  } catch {
+    // 書き込むときに同じエラーになる
+    return undefined;
+  }
+  if (options.mode === "create") return undefined;
+  if (fm.id) return JSON.stringify(["page", extractId(fm.id)]);
+  const key = fm.key ?? options.match?.property;
+  if (key === undefined || !fm.database) return undefined;
+  return JSON.stringify(["upsert", fm.database, key, fm.properties?.[key] ?? fm.title]);
+}
+
+// ─── Atomic batch ───
+
+/** atomic バッチで書き込んだページの記録（失敗時の取り消し用） */
+interface WriteJournal {
+  created: string[];
+  updated: PageSnapshot[];
+}
+
+/** 更新前のページの状態。書き込む項目だけを戻せる形で持つ */
+interface PageSnapshot {
+  id: string;
+  params: Parameters<typeof updatePage>[1];
+  /** 置換・セクション削除で書き換える範囲の元の状態 */
+  body?: BlockSnapshot;
+  /** 追記・挿入で作成したブロック（取り消すときはこれだけを削除する） */
+  insertedBlocks: string[];
+}
+
+/**
+ * 全ドキュメントを dry run で検証してから順に書き込む。
+ * 途中で失敗したら、作成したページをアーカイブし、更新したページを元に戻す。
+ */
+async function processAtomicBatch(documents: string[], options: WriteOptions, ctx: OperationContext) {
+  const total = documents.length;
+
+  // 検証: 親・スキーマ・プロパティ・見出しなどを解決する（何も書き込まない）
+  const previews: WriteResult[] = [];
+  const invalid: WriteDocumentResult[] = [];
+  await mapConcurrent(documents, BATCH_CONCURRENCY, async (document, i) => {
+    try {
+      previews[i] = await processSingleWrite(document, { ...options, dryRun: true }, ctx);
+    } catch (error) {
+      invalid.push({ index: i + 1, status: isCancelled(error) ? "cancelled" : "error", error: formatError(error) });
+    }
+  });
+
+  if (invalid.length > 0) {
+    const results = documents.map(
+      (_, i): WriteDocumentResult => invalid.find((r) => r.index === i + 1) ?? { index: i + 1, status: "skipped" }
+    );
+    const lines = results.map(
+      (r) => `${r.index}. ${r.error === undefined ? "SKIPPED" : `${r.status === "cancelled" ? "CANCELLED" : "ERROR"}: ${r.error}`}`
+    );
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: `Atomic batch: nothing was written because ${invalid.length}/${total} documents failed validation.\n\n${lines.join("\n")}`,
+        },
+      ],
+      structuredContent: buildOutput(results),
+      isError: true,
+    };
+  }
+  if (options.dryRun) {
+    const lines = previews.map((r, i) => `${i + 1}. ${formatWriteResult(r)}`);
+    return {
+      content: [{ type: "text" as const, text: `Atomic batch: all ${total} documents are valid.\n\n${lines.join("\n")}` }],
+      structuredContent: buildOutput(previews.map((r, i) => ({ index: i + 1, ...r }))),
+    };
+  }
+
+  const journal: WriteJournal = { created: [], updated: [] };
+  const written: WriteResult[] = [];
+  for (let i = 0; i < total; i++) {
+    try {
+      written.push(await processSingleWrite(documents[i], options, ctx, journal));
+      ctx.onProgress?.(`Processed ${i + 1}/${total} documents`);
+    } catch (error) {
+      // 取り消しは中断せずに最後まで行う
+      const failures = await rollback(journal);
+      const results: WriteDocumentResult[] = [
+        ...written.map((r, j): WriteDocumentResult => ({ index: j + 1, ...r, status: "rolled_back" })),
+        { index: i + 1, status: isCancelled(error) ? "cancelled" : "error", error: formatError(error) },
+        ...documents.slice(i + 1).map((_, j): WriteDocumentResult => ({ index: i + j + 2, status: "skipped" })),
+      ];
+      const lines = [
+        ...written.map((r, j) => `${j + 1}. ROLLED BACK: ${formatWriteResult(r)}`),
+        `${i + 1}. ${isCancelled(error) ? "CANCELLED" : "ERROR"}: ${formatError(error)}`,
+        ...documents.slice(i + 1).map((_, j) => `${i + j + 2}. SKIPPED`),
+      ];
+      const undone = `${journal.created.length} created page(s) archived, ${journal.updated.length} updated page(s) restored`;
+      const problems = failures.length > 0 ? `\nRollback incomplete:\n${failures.map((f) => `  - ${f}`).join("\n")}` : "";
       return {
-        content: [{ type: "text", text: summary }],
-        ...(errors > 0 ? { isError: true } : {}),
+        content: [
+          {
+            type: "text" as const,
+            text: `Atomic batch failed at document ${i + 1}/${total} and was rolled back (${undone}).${problems}\n\n${lines.join("\n")}`,
+          },
+        ],
+        structuredContent: buildOutput(results),
+        isError: true,
       };
     }
+  }
+
+  const lines = written.map((r, i) => `${i + 1}. ${formatWriteResult(r)}`);
+  return {
+    content: [{ type: "text" as const, text: `Batch complete: ${total}/${total} succeeded.\n\n${lines.join("\n")}` }],
+    structuredContent: buildOutput(written.map((r, i) => ({ index: i + 1, ...r }))),
+  };
+}
+
+/**
+ * 書き込む項目（frontmatter にあるプロパティ・アイコン・カバーと、置換するなら本文の範囲）の現在の状態を保存する。
+ * 追記・挿入は作成したブロックを後から insertedBlocks に記録する。
+ */
+async function takeSnapshot(
+  page: PageObjectResponse,
+  fm: DocumentFrontmatter,
+  plan: BlockSyncPlan | undefined
+): Promise<PageSnapshot> {
+  const current = pageToFrontmatter(page);
+  const values = extractPropertyValues(page);
+  const names = Object.keys(fm.properties ?? {}).filter((name) => name in values);
+  const { properties } = await resolveProperties(
+    {
+      title: fm.title !== undefined ? (current.title ?? "") : undefined,
+      properties: Object.fromEntries(names.map((name) => [name, values[name]])),
+    },
+    page.parent
   );
+
+  const params: Parameters<typeof updatePage>[1] = { properties };
+  if (fm.icon) params.icon = current.icon ? (buildIcon(current.icon) as typeof params.icon) : null;
+  if (fm.cover) params.cover = current.cover ? { external: { url: current.cover } } : null;
+
+  return { id: page.id, params, body: plan ? await snapshotBlockSync(plan) : undefined, insertedBlocks: [] };
+}
+
+/**
+ * 記録を新しい順に取り消す。失敗しても残りは続け、失敗したものを返す。
+ */
+async function rollback(journal: WriteJournal): Promise<string[]> {
+  const failures: string[] = [];
+  for (const snapshot of [...journal.updated].reverse()) {
+    try {
+      await updatePage(snapshot.id, snapshot.params);
+      for (const blockId of [...snapshot.insertedBlocks].reverse()) await deleteBlock(blockId);
+      if (snapshot.body) await restoreBlockSync(snapshot.body);
+    } catch (error) {
+      failures.push(`${snapshot.id} was not restored: ${formatError(error)}`);
+    }
+  }
+  for (const id of [...journal.created].reverse()) {
+    try {
+      await archivePage(id);
+    } catch (error) {
+      failures.push(`${id} was not archived: ${formatError(error)}`);
+    }
+  }
+  return failures;
 }
 
 // ─── Single page write ───
 
-async function processSingleWrite(markdown: string, mode: string, position: string): Promise<string> {
-  const { frontmatter: fm, content } = parseMarkdown(markdown);
+async function processSingleWrite(
+  markdown: string,
+  options: WriteOptions,
+  ctx?: OperationContext,
+  journal?: WriteJournal
+): Promise<WriteResult> {
+  const { mode, position } = options;
+  const parsed = parseMarkdown(markdown);
+  const content = parsed.content;
   const blocks = markdownToNotionBlocks(content);
+  let fm = parsed.frontmatter;
+
+  if (position === "delete" && options.section === undefined) {
+    throw new NotionMcpError('position "delete" requires a section.', "INVALID_POSITION");
+  }
+  if (typeof position === "object" && options.section !== undefined) {
+    throw new NotionMcpError('position { after } cannot be combined with section. Use "prepend" to insert right after the section heading.', "INVALID_POSITION");
+  }
+
+  // upsert: キーのプロパティで既存の行を探し、あれば更新にする
+  const key = fm.key ?? options.match?.property;
+  if (key !== undefined && !fm.id && mode !== "create") {
+    const existing = await findRowByKey(fm, key);
+    if (existing.id) fm = { ...fm, id: existing.id };
+    else if (mode === "update") {
+      throw new NotionMcpError(`No row in "${fm.database}" has ${key} = ${JSON.stringify(existing.value)}.`, "NOT_FOUND");
+    }
+  }
 
   const isUpdate = mode === "update" || (mode === "auto" && !!fm.id);
   const isCreate = mode === "create" || (mode === "auto" && !fm.id);
 
-  if (isUpdate) return await doUpdate(fm, content, blocks, position);
-  if (isCreate) return await doCreate(fm, blocks);
+  // 安全モード: 置換・追記などの書き込み種別ごとに許可を確認（セクションの削除は置換として扱う）
+  assertAllowed(
+    "write",
+    !isUpdate ? "create" : typeof position === "object" ? "insert" : position === "delete" ? "replace" : position
+  );
+
+  throwIfCancelled(ctx);
+
+  if (isUpdate) return await doUpdate(fm, content, blocks, options, ctx, journal);
+  if (isCreate) return await doCreate(fm, blocks, options, journal);
   throw new NotionMcpError("Invalid mode.", "INVALID_MODE");
 }
 
@@ -200,8 +732,10 @@ async function doUpdate(
   fm: DocumentFrontmatter,
   content: string,
   blocks: BlockObjectRequest[],
-  position: string
-): Promise<string> {
+  { position, section, overwrite, force, dryRun, atomic }: WriteOptions,
+  ctx?: OperationContext,
+  journal?: WriteJournal
+): Promise<WriteResult> {
   if (!fm.id) {
     throw new NotionMcpError(
       'Update requires "id" in frontmatter.',
@@ -211,7 +745,54 @@ async function doUpdate(
   const pageId = extractId(fm.id);
 
   const existingPage = await getPage(pageId);
-  const properties = await resolveProperties(fm, existingPage.parent);
+  // read の後に誰かが編集していたら上書きしない
+  if (!overwrite) await assertNotEditedSince(existingPage, fm.last_edited);
+  const { properties, skipped } = await resolveProperties(fm, existingPage.parent);
+  // 追記・挿入でもタイトルやプロパティは書き換わるので、値が変わるなら置換として許可を確認する
+  if (position !== "replace" && position !== "delete" && !isActionAllowed("write", "replace")) {
+    const changed = diffProperties(extractPropertyValues(existingPage), fm, properties).map((c) => `"${c.name}"`);
+    if (changed.length > 0) {
+      throw new NotionMcpError(
+        `Changing ${changed.join(", ")} needs "write:replace", which is disabled on this server. Remove the changed properties from the frontmatter to only add content.`,
+        "FORBIDDEN"
+      );
+    }
+  }
+
+  // 置換は先に差分を計算し、表現できないブロックを消すことになるなら何も変更せずに止める
+  const hasBody = content.trim() !== "" && blocks.length > 0;
+  const target = section !== undefined ? await resolveSection(pageId, section) : undefined;
+  const body = target ? withoutSectionHeading(blocks, target) : blocks;
+  const plan =
+    position === "delete" || (hasBody && position === "replace")
+      ? await planBlockSync(target?.parentId ?? pageId, position === "delete" ? [] : body, { force, scope: target })
+      : undefined;
+  // atomic バッチでは、取り消せない置換を検証の段階で止める
+  if (atomic && plan) assertRestorable(plan);
+
+  if (dryRun) {
+    // 挿入位置の見出しが無ければ本番と同じく失敗させる
+    if (hasBody && typeof position === "object") await resolveAnchor(pageId, position.after);
+    return {
+      status: statusOf(position),
+      id: pageId,
+      title: fm.title,
+      url: existingPage.url,
+      ...(target ? { section: target.title } : {}),
+      ...(plan ? { changes: plan.changes } : {}),
+      dryRun: true,
+      preview: {
+        properties: diffProperties(extractPropertyValues(existingPage), fm, properties),
+        skipped,
+        blocks: plan ? describeBlockSync(plan) : hasBody ? describeBlocks(body) : [],
+      },
+    };
+  }
+
+  // atomic バッチでは失敗時に戻せるよう、変更前の状態と作成したブロックを残す
+  const snapshot = journal ? await takeSnapshot(existingPage, fm, plan) : undefined;
+  if (snapshot) journal?.updated.push(snapshot);
+  const onCreated = snapshot && ((blockIds: string[]) => snapshot.insertedBlocks.push(...blockIds));
 
   const updateParams: Parameters<typeof updatePage>[1] = {};
   if (Object.keys(properties).length > 0) {
@@ -224,53 +805,181 @@ async function doUpdate(
     updateParams.cover = { external: { url: fm.cover } };
   }
 
-  await updatePage(pageId, updateParams as Parameters<typeof updatePage>[1]);
+  const updatedPage = await updatePage(pageId, updateParams as Parameters<typeof updatePage>[1]);
+  const result = { id: pageId, title: fm.title, url: updatedPage.url, ...(target ? { section: target.title } : {}) };
 
-  if (content.trim() && blocks.length > 0) {
+  let changes: BlockChanges | undefined;
+  if (hasBody || plan) {
+    throwIfCancelled(ctx, `properties of ${pageId} updated`);
+    if (typeof position === "object") {
+      const anchor = await resolveAnchor(pageId, position.after);
+      await insertBlocks(pageId, blocks, anchor, ctx, onCreated);
+      return { status: "inserted", ...result };
+    }
     switch (position) {
       case "append":
-        await appendBlocks(pageId, blocks);
+        if (target) await insertBlocks(target.parentId, body, target.blocks.at(-1)?.id ?? target.after, ctx, onCreated);
+        else await appendBlocks(pageId, blocks, ctx, onCreated);
         break;
       case "prepend":
-        await prependBlocks(pageId, blocks);
+        if (target) await insertBlocks(target.parentId, body, target.after, ctx, onCreated);
+        else await prependBlocks(pageId, blocks, ctx, onCreated);
         break;
       case "replace":
+      case "delete":
       default:
-        await deleteAllBlocks(pageId);
-        await appendBlocks(pageId, blocks);
+        // 変わったブロックだけを書き換える。始めたら本文が揃うまで中断しない
+        if (plan) changes = await applyBlockSync(plan, { onProgress: ctx?.onProgress });
         break;
     }
   }
 
-  const action = position === "append" ? "Appended to" : position === "prepend" ? "Prepended to" : "Updated";
-  return `${action}: "${fm.title ?? pageId}" (${pageId})`;
+  return { status: statusOf(position), ...result, ...(changes ? { changes } : {}) };
+}
+
+function statusOf(position: WritePosition): WriteResult["status"] {
+  return position === "append" ? "appended"
+    : position === "prepend" ? "prepended"
+    : typeof position === "object" ? "inserted"
+    : "updated";
+}
+
+/**
+ * position.after を挿入位置のブロックIDに解決する。
+ * ブロックIDはそのまま使い、それ以外はページ直下の見出しのテキストで探す（"## " などの接頭辞は無視）。
+ */
+async function resolveAnchor(pageId: string, after: string): Promise<string> {
+  if (isNotionId(after)) return extractId(after);
+  return findHeading(await getChildBlocks(pageId), after).block.id;
+}
+
+// ─── Sections ───
+
+/** ページ直下の見出し */
+interface Heading {
+  block: BlockObjectResponse;
+  text: string;
+  level: number;
+}
+
+/**
+ * 見出しの下のブロック（次の同じかより上位の見出しの手前まで）。
+ * トグル見出しは子ブロックがセクションになる。
+ */
+interface Section extends BlockScope {
+  title: string;
+  level: number;
+  /** ブロックを書き込む親（通常はページ、トグル見出しなら見出し自身） */
+  parentId: string;
+}
+
+/**
+ * section（見出しのテキストまたはブロックID）をページ直下の範囲に解決する。
+ */
+async function resolveSection(pageId: string, section: string): Promise<Section> {
+  const children = await getChildBlocks(pageId);
+  const heading = findHeading(children, section);
+
+  if (isToggleable(heading.block)) {
+    return {
+      title: heading.text,
+      level: heading.level,
+      parentId: heading.block.id,
+      blocks: heading.block.has_children ? await getChildBlocks(heading.block.id) : [],
+      after: null,
+    };
+  }
+  const start = children.indexOf(heading.block) + 1;
+  const end = children.findIndex((block, i) => i >= start && (headingOf(block)?.level ?? Infinity) <= heading.level);
+  return {
+    title: heading.text,
+    level: heading.level,
+    parentId: pageId,
+    blocks: children.slice(start, end === -1 ? undefined : end),
+    after: heading.block.id,
+  };
+}
+
+/**
+ * 本文の先頭がセクションと同じ見出しなら取り除く（見出しごと書いても二重にならないように）。
+ */
+function withoutSectionHeading(blocks: BlockObjectRequest[], section: Section): BlockObjectRequest[] {
+  const first = blocks[0] as BlockObjectResponse | undefined;
+  const heading = first && headingOf(first);
+  const matches =
+    heading && heading.level === section.level && normalizeTitle(heading.text) === normalizeTitle(section.title);
+  return matches ? blocks.slice(1) : blocks;
+}
+
+/**
+ * ページ直下の見出しをテキスト（"## " などの接頭辞は無視）またはブロックIDで探す。
+ */
+function findHeading(children: BlockObjectResponse[], input: string): Heading {
+  const headings = children.flatMap((block) => headingOf(block) ?? []);
+
+  if (isNotionId(input)) {
+    const id = extractId(input);
+    const found = headings.find((h) => h.block.id === id);
+    if (found) return found;
+    throw new NotionMcpError(`Block ${id} is not a top-level heading on this page.`, "NOT_FOUND");
+  }
+
+  const text = normalizeTitle(input.replace(/^#{1,3}\s+/, ""));
+  const matches = headings.filter((h) => normalizeTitle(h.text) === text);
+
+  if (matches.length === 1) return matches[0];
+  if (matches.length > 1) {
+    throw new NotionMcpError(
+      `Multiple headings match "${input}". Use a block ID instead:\n${matches.map((h) => `  - ${h.block.id}`).join("\n")}`,
+      "AMBIGUOUS"
+    );
+  }
+  const available = headings.length > 0 ? ` Headings on this page: ${headings.map((h) => `"${h.text}"`).join(", ")}` : "";
+  throw new NotionMcpError(`Heading "${input}" not found.${available}`, "NOT_FOUND");
+}
+
+function headingOf(block: BlockObjectResponse): Heading | undefined {
+  const [richText, level] =
+    block.type === "heading_1" ? [block.heading_1.rich_text, 1]
+    : block.type === "heading_2" ? [block.heading_2.rich_text, 2]
+    : block.type === "heading_3" ? [block.heading_3.rich_text, 3]
+    : [undefined, 0];
+  return richText ? { block, text: blockText(block), level } : undefined;
+}
+
+function isToggleable(block: BlockObjectResponse): boolean {
+  return (
+    (block.type === "heading_1" && block.heading_1.is_toggleable) ||
+    (block.type === "heading_2" && block.heading_2.is_toggleable) ||
+    (block.type === "heading_3" && block.heading_3.is_toggleable)
+  );
 }
 
 async function doCreate(
   fm: DocumentFrontmatter,
-  blocks: BlockObjectRequest[]
-): Promise<string> {
-  let parent: { page_id: string } | { database_id: string };
+  blocks: BlockObjectRequest[],
+  { dryRun }: WriteOptions,
+  journal?: WriteJournal
+): Promise<WriteResult> {
+  let parent: { page_id: string } | { data_source_id: string };
   let properties: Record<string, unknown>;
+  let skipped: SkippedProperty[];
 
   if (fm.database) {
-    const dbId = isNotionId(fm.database)
-      ? extractId(fm.database)
-      : (await resolveByName(fm.database, "database")).id;
+    const { databaseId, dataSourceId } = await resolveDataSource(fm.database, { exact: true });
+    fm = applyWriteDefaults(fm, getDatabaseConfig(databaseId)?.defaults);
 
-    const dsId = await getDatabaseDataSourceId(dbId);
-    const ds = await getDataSource(dsId);
+    const ds = await getDataSource(dataSourceId, { properties: Object.keys(fm.properties ?? {}) });
     const schema = extractDatabaseSchema(ds);
 
-    parent = { database_id: dbId };
+    parent = { data_source_id: dataSourceId };
     properties = frontmatterToProperties(fm, schema);
+    skipped = findSkippedProperties(fm, schema);
   } else if (fm.parent) {
     const parentId =
       fm.parent === "workspace"
         ? undefined
-        : isNotionId(fm.parent)
-          ? extractId(fm.parent)
-          : (await resolveByName(fm.parent, "page")).id;
+        : (await resolveTarget(fm.parent, "page", { exact: true })).id;
 
     if (!parentId) {
       throw new NotionMcpError(
@@ -280,6 +989,7 @@ async function doCreate(
     }
     parent = { page_id: parentId };
     properties = buildPageProperties(fm);
+    skipped = findSkippedProperties(fm, undefined);
   } else {
     throw new NotionMcpError(
       'Either "parent" or "database" is required in frontmatter for creation.',
@@ -287,6 +997,15 @@ async function doCreate(
     );
   }
 
+  if (dryRun) {
+    return {
+      status: "created",
+      title: fm.title,
+      dryRun: true,
+      preview: { properties: diffProperties({}, fm, properties), skipped, blocks: describeBlocks(blocks) },
+    };
+  }
+
   const createParams: Parameters<typeof createPage>[0] = {
     parent,
     properties,
@@ -300,8 +1019,118 @@ async function doCreate(
     createParams.cover = { external: { url: fm.cover } };
   }
 
-  const newPage = await createPage(createParams);
-  return `Created: "${fm.title ?? "Untitled"}" (${newPage.id})\nURL: ${newPage.url}`;
+  const newPage = await createPage(createParams, (page) => journal?.created.push(page.id));
+  return { status: "created", id: newPage.id, title: fm.title, url: newPage.url };
+}
+
+/**
+ * 設定ファイルのDBデフォルト値で、frontmatterに無い項目を補う。
+ */
+function applyWriteDefaults(
+  fm: DocumentFrontmatter,
+  defaults?: WriteDefaults
+): DocumentFrontmatter {
+  if (!defaults) return fm;
+  return {
+    ...fm,
+    icon: fm.icon ?? defaults.icon,
+    cover: fm.cover ?? defaults.cover,
+    properties: defaults.properties
+      ? { ...defaults.properties, ...fm.properties }
+      : fm.properties,
+  };
+}
+
+// ─── Upsert ───
+
+/** 重複エラーに載せる行の最大数 */
+const MAX_DUPLICATES = 5;
+
+/**
+ * frontmatter の database から、key プロパティの値が一致する行を探す。
+ * 見つからなければ id は undefined、複数あれば DUPLICATE。
+ */
+async function findRowByKey(
+  fm: DocumentFrontmatter,
+  key: string
+): Promise<{ id: string | undefined; value: unknown }> {
+  if (!fm.database) {
+    throw new NotionMcpError(`Upsert by "${key}" requires "database" in frontmatter.`, "MISSING_PARENT");
+  }
+  const { dataSourceId } = await resolveDataSource(fm.database, { exact: true });
+  const schema = extractDatabaseSchema(await getDataSource(dataSourceId, { properties: [key] }));
+  const property = schema.find((s) => s.name === key);
+  if (!property) {
+    throw new NotionMcpError(
+      `Key property "${key}" not found in "${fm.database}". Properties: ${schema.map((s) => `"${s.name}"`).join(", ")}`,
+      "NOT_FOUND"
+    );
+  }
+
+  const value = keyValue(fm, key, property.type);
+  const rows = await queryDataSource({
+    dataSourceId,
+    filter: keyFilter(key, property.type, value),
+    limit: MAX_DUPLICATES + 1,
+  });
+  if (rows.length <= 1) return { id: rows[0]?.id, value };
+
+  const titleName = schema.find((s) => s.type === "title")?.name ?? "";
+  const listed = rows
+    .slice(0, MAX_DUPLICATES)
+    .map((row) => `  - ${row.id} "${String(extractPropertyValues(row)[titleName] ?? "") || "Untitled"}"`);
+  throw new NotionMcpError(
+    `Several rows in "${fm.database}" have ${key} = ${JSON.stringify(value)}:\n${listed.join("\n")}` +
+      (rows.length > MAX_DUPLICATES ? `\n  ... and more` : "") +
+      "\nRemove the duplicates, or pass id to pick one.",
+    "DUPLICATE"
+  );
+}
+
+/** ドキュメントのキーの値。title 型なら frontmatter の title を使う */
+function keyValue(fm: DocumentFrontmatter, key: string, type: NotionPropertyType): unknown {
+  const value = type === "title" ? (fm.properties?.[key] ?? fm.title) : fm.properties?.[key];
+  if (value === undefined || value === null || value === "") {
+    throw new NotionMcpError(`Upsert by "${key}" needs a value: set properties.${key} in frontmatter.`, "MISSING_KEY");
+  }
+  return value;
+}
+
+/** キーの値が等しい行を探すフィルタ */
+function keyFilter(key: string, type: NotionPropertyType, value: unknown): Record<string, unknown> {
+  switch (type) {
+    case "title":
+    case "rich_text":
+    case "url":
+    case "email":
+    case "phone_number":
+    case "select":
+    case "status":
+      return { property: key, [type]: { equals: String(value) } };
+    case "number": {
+      const number = typeof value === "string" && value.trim() === "" ? NaN : Number(value);
+      if (!Number.isFinite(number)) {
+        throw new NotionMcpError(`${key} = ${JSON.stringify(value)} is not a number.`, "INVALID_KEY");
+      }
+      return { property: key, number: { equals: number } };
+    }
+    case "unique_id": {
+      // "TASK-12" のような接頭辞付きの値も数値部分で探す
+      const digits = String(value).match(/(\d+)$/)?.[1];
+      if (digits === undefined) {
+        throw new NotionMcpError(
+          `${key} = ${JSON.stringify(value)} is not an ID. Use its number, e.g. 12 or "TASK-12".`,
+          "INVALID_KEY"
+        );
+      }
+      return { property: key, unique_id: { equals: Number(digits) } };
+    }
+    default:
+      throw new NotionMcpError(
+        `"${key}" is a ${type} property and can't be used as a key. Use a text, number, select, status, URL, email, phone or ID property.`,
+        "INVALID_KEY"
+      );
+  }
 }
 
 // ─── Property resolution ───
@@ -309,16 +1138,18 @@ async function doCreate(
 async function resolveProperties(
   fm: DocumentFrontmatter,
   parent: { type: string; [key: string]: unknown }
-): Promise<Record<string, unknown>> {
-  if (parent.type === "database_id" && typeof parent.database_id === "string") {
-    const dsId = await getDatabaseDataSourceId(parent.database_id);
-    const ds = await getDataSource(dsId);
-    return frontmatterToProperties(fm, extractDatabaseSchema(ds));
-  } else if (parent.type === "data_source_id" && typeof parent.data_source_id === "string") {
-    const ds = await getDataSource(parent.data_source_id);
-    return frontmatterToProperties(fm, extractDatabaseSchema(ds));
-  } else if (parent.type === "page_id" || parent.type === "workspace") {
-    return buildPageProperties(fm);
+): Promise<{ properties: Record<string, unknown>; skipped: SkippedProperty[] }> {
+  // キャッシュ済みスキーマに無いプロパティがあれば取り直す
+  const names = Object.keys(fm.properties ?? {});
+  const dataSourceId =
+    parent.type === "database_id" && typeof parent.database_id === "string"
+      ? await getDatabaseDataSourceId(parent.database_id)
+      : parent.type === "data_source_id" && typeof parent.data_source_id === "string"
+        ? parent.data_source_id
+        : undefined;
+  if (!dataSourceId) {
+    return { properties: buildPageProperties(fm), skipped: findSkippedProperties(fm, undefined) };
   }
-  return buildPageProperties(fm);
+  const schema = extractDatabaseSchema(await getDataSource(dataSourceId, { properties: names }));
+  return { properties: frontmatterToProperties(fm, schema), skipped: findSkippedProperties(fm, schema) };
 }
@@ -0,0 +1,1038 @@
+/**
+ * インメモリのNotion APIスタブ
+ * @notionhq/client の fetch を差し替えて使う（setClientOptions({ fetch: fake.fetch })）。
+ * ページ・ブロック・データソース・コメント・検索を最低限の互換性で再現する。
+ */
+
+type Json = Record<string, unknown>;
+
+interface FakeResponse {
+  ok: boolean;
+  status: number;
+  headers: Headers;
+  text: () => Promise<string>;
+}
+
+/** 記録されたリクエスト（アサーション用） */
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  body?: Json;
+}
+
+/** failNext で注入するエラー */
+interface InjectedFailure {
+  method?: string;
+  path: string | RegExp;
+  status: number;
+  code: string;
+  message: string;
+  headers: Record<string, string>;
+  remaining: number;
+}
+
+/** DB作成時のプロパティ定義: 型名のみ、または select 等の選択肢付き */
+export type PropertyDefinition = string | { type: string; options?: string[] };
+
+class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: string,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+const BASE_TIME = Date.parse("2026-01-01T00:00:00.000Z");
+const USER = { object: "user", id: "00000000-0000-4000-8000-0000000000aa" };
+
+export class FakeNotion {
+  readonly pages = new Map<string, Json>();
+  readonly blocks = new Map<string, Json>();
+  readonly databases = new Map<string, Json>();
+  readonly dataSources = new Map<string, Json>();
+  readonly comments: Json[] = [];
+  /** 受け付けた全リクエスト（エラー注入分も含む） */
+  readonly requests: RecordedRequest[] = [];
+
+  /** 親（ページ/ブロック）ID → 子ブロックIDの並び */
+  private readonly childIds = new Map<string, string[]>();
+  private readonly failures: InjectedFailure[] = [];
+  private sequence = 0;
+  private clock = 0;
+
+  // ─── Seeding ───
+
+  /** ページを作成してIDを返す。parent 省略時はワークスペース直下 */
+  addPage(params: { title: string; parent?: string; icon?: string; children?: Json[] }): string {
+    const page = this.createPage({
+      parent: params.parent ? { page_id: params.parent } : { workspace: true },
+      properties: { title: { title: [{ text: { content: params.title } }] } },
+      icon: params.icon ? { emoji: params.icon } : undefined,
+      children: params.children,
+    });
+    return page.id as string;
+  }
+
+  /** DB（データソース1つ）を作成する。dataSource でデータソース名を変えられる（省略時はDBのタイトル） */
+  addDatabase(params: {
+    title: string;
+    parent: string;
+    properties: Record<string, PropertyDefinition>;
+    dataSource?: string;
+  }): { databaseId: string; dataSourceId: string } {
+    const parentBlock = this.requireContainer(params.parent);
+    const databaseId = this.nextId();
+    const now = this.tick();
+
+    this.databases.set(databaseId, {
+      object: "database",
+      id: databaseId,
+      title: toRichTextResponse([{ text: { content: params.title } }]),
+      description: [],
+      parent: { type: "page_id", page_id: parentBlock },
+      data_sources: [],
+      created_time: now,
+      last_edited_time: now,
+      archived: false,
+      in_trash: false,
+      is_inline: false,
+      url: notionUrl(params.title, databaseId),
+    });
+    const dataSourceId = this.addDataSource(databaseId, {
+      title: params.dataSource ?? params.title,
+      properties: params.properties,
+    });
+    this.insertBlocks(parentBlock, [{ child_database: { title: params.title } }], undefined, databaseId);
+    return { databaseId, dataSourceId };
+  }
+
+  /** 既存のDBにデータソースを追加してIDを返す */
+  addDataSource(databaseId: string, params: { title: string; properties: Record<string, PropertyDefinition> }): string {
+    const db = this.requireDatabase(databaseId);
+    const dataSourceId = this.nextId();
+    const now = this.tick();
+
+    const properties: Json = {};
+    for (const [name, def] of Object.entries(params.properties)) {
+      properties[name] = buildPropertySchema(name, typeof def === "string" ? { type: def } : def);
+    }
+
+    this.dataSources.set(dataSourceId, {
+      object: "data_source",
+      id: dataSourceId,
+      title: toRichTextResponse([{ text: { content: params.title } }]),
+      description: [],
+      properties,
+      parent: { type: "database_id", database_id: databaseId },
+      database_parent: db.parent,
+      created_time: now,
+      last_edited_time: now,
+      archived: false,
+      in_trash: false,
+      url: notionUrl(params.title, dataSourceId),
+    });
+    (db.data_sources as Json[]).push({ id: dataSourceId, name: params.title });
+    return dataSourceId;
+  }
+
+  /** DBにレコードを追加する。values はプロパティ名 → 素の値（文字列・数値・配列など） */
+  addRow(dataSourceId: string, values: Record<string, unknown>, children?: Json[]): string {
+    const ds = this.requireDataSource(dataSourceId);
+    const schema = ds.properties as Record<string, Json>;
+    const properties: Json = {};
+    for (const [name, value] of Object.entries(values)) {
+      const prop = schema[name];
+      if (!prop) throw new Error(`Unknown property "${name}"`);
+      properties[name] = simpleToPropertyRequest(prop.type as string, value);
+    }
+    const page = this.createPage({ parent: { data_source_id: dataSourceId }, properties, children });
+    return page.id as string;
+  }
+
+  /** ページ/ブロックの末尾にブロック（リクエスト形式）を追加する */
+  addBlocks(parentId: string, children: Json[]): string[] {
+    return this.insertBlocks(parentId, children).map((b) => b.id as string);
+  }
+
+  /** ページのコメントを追加する */
+  addComment(pageId: string, text: string): string {
+    const comment = this.createComment({ parent: { page_id: pageId }, rich_text: [{ text: { content: text } }] });
+    return comment.id as string;
+  }
+
+  /**
+   * 次に一致するリクエストをエラーにする（times 回まで）。
+   * 例: failNext("POST", /\/query$/, 429, "rate_limited", { "retry-after": "1" })
+   */
+  failNext(
+    method: string | undefined,
+    path: string | RegExp,
+    status: number,
+    code: string,
+    headers: Record<string, string> = {},
+    times = 1
+  ): void {
+    this.failures.push({
+      method,
+      path,
+      status,
+      code,
+      message: `Injected ${code} error`,
+      headers,
+      remaining: times,
+    });
+  }
+
+  // ─── Inspection ───
+
+  /** 子ブロック（アーカイブ済みを除く）をレスポンス形式で返す */
+  children(parentId: string): Json[] {
+    return (this.childIds.get(parentId) ?? []).map((id) => this.blocks.get(id)!);
+  }
+
+  /** 子ブロックのプレーンテキストを並び順に返す（アサーション用） */
+  childTexts(parentId: string): string[] {
+    return this.children(parentId).map((block) => blockPlainText(block));
+  }
+
+  /** ページのタイトル */
+  titleOf(pageId: string): string {
+    const page = this.pages.get(pageId);
+    if (!page) throw new Error(`Unknown page ${pageId}`);
+    return pageTitle(page);
+  }
+
+  /** 記録されたリクエストを method / パスで絞り込む */
+  requestsTo(method: string, path: string | RegExp): RecordedRequest[] {
+    return this.requests.filter((r) => r.method === method && matchPath(r.path, path));
+  }
+
+  // ─── fetch ───
+
+  /** @notionhq/client の fetch オプションに渡す */
+  readonly fetch = async (
+    url: string,
+    init?: { method?: string; body?: unknown; headers?: Record<string, string> }
+  ): Promise<FakeResponse> => {
+    const parsed = new URL(url);
+    const path = parsed.pathname.replace(/^\/v1\//, "");
+    const method = (init?.method ?? "GET").toUpperCase();
+    const body = typeof init?.body === "string" ? (JSON.parse(init.body) as Json) : undefined;
+    this.requests.push({ method, path, query: parsed.searchParams, body });
+
+    const failure = this.takeFailure(method, path);
+    if (failure) {
+      return respond(failure.status, errorBody(failure.status, failure.code, failure.message), failure.headers);
+    }
+
+    try {
+      return respond(200, this.route(method, path, parsed.searchParams, body ?? {}));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return respond(error.status, errorBody(error.status, error.code, error.message));
+      }
+      throw error;
+    }
+  };
+
+  private takeFailure(method: string, path: string): InjectedFailure | undefined {
+    const failure = this.failures.find(
+      (f) => f.remaining > 0 && (!f.method || f.method === method) && matchPath(path, f.path)
+    );
+    if (failure) failure.remaining--;
+    return failure;
+  }
+
+  private route(method: string, path: string, query: URLSearchParams, body: Json): Json {
+    const segments = path.split("/");
+    const [resource, id, sub] = segments;
+
+    switch (`${method} ${resource}${id ? "/:id" : ""}${sub ? `/${sub}` : ""}`) {
+      case "POST pages":
+        return this.createPage(body);
+      case "GET pages/:id":
+        return this.requirePage(id);
+      case "PATCH pages/:id":
+        return this.updatePage(id, body);
+      case "POST pages/:id/move":
+        return this.movePage(id, body);
+      case "GET blocks/:id":
+        return this.requireBlock(id);
+      case "PATCH blocks/:id":
+        return this.updateBlock(id, body);
+      case "DELETE blocks/:id":
+        return this.deleteBlock(id);
+      case "GET blocks/:id/children":
+        return this.listBlockChildren(id, query);
+      case "PATCH blocks/:id/children":
+        return this.appendBlockChildren(id, body);
+      case "GET databases/:id":
+        return this.requireDatabase(id);
+      case "GET data_sources/:id":
+        return this.requireDataSource(id);
+      case "PATCH data_sources/:id":
+        return this.updateDataSource(id, body);
+      case "POST data_sources/:id/query":
+        return this.queryDataSource(id, body);
+      case "POST search":
+        return this.search(body);
+      case "POST comments":
+        return this.createComment(body);
+      case "GET comments":
+        return this.listComments(query);
+      default:
+        throw new HttpError(400, "invalid_request_url", `Invalid request URL: ${method} /${path}`);
+    }
+  }
+
+  // ─── Pages ───
+
+  private createPage(body: Json): Json {
+    const parent = body.parent as Json;
+    const id = this.nextId();
+    const now = this.tick();
+    let pageParent: Json;
+    let properties: Json;
+
+    if (typeof parent.page_id === "string") {
+      const parentId = this.requireContainer(parent.page_id);
+      pageParent = { type: "page_id", page_id: parentId };
+      properties = { title: toPropertyResponse("title", "title", body.properties ? (body.properties as Json).title : undefined) };
+    } else if (typeof parent.database_id === "string" || typeof parent.data_source_id === "string") {
+      const ds =
+        typeof parent.data_source_id === "string"
+          ? this.requireDataSource(parent.data_source_id)
+          : this.requireDataSource(this.firstDataSourceId(parent.database_id as string));
+      const databaseId = (ds.parent as Json).database_id as string;
+      pageParent = { type: "data_source_id", data_source_id: ds.id, database_id: databaseId };
+      properties = this.buildRowProperties(ds, (body.properties as Json) ?? {});
+    } else if (parent.workspace) {
+      pageParent = { type: "workspace", workspace: true };
+      properties = { title: toPropertyResponse("title", "title", body.properties ? (body.properties as Json).title : undefined) };
+    } else {
+      throw new HttpError(400, "validation_error", "body.parent should be defined");
+    }
+
+    const page: Json = {
+      object: "page",
+      id,
+      created_time: now,
+      last_edited_time: now,
+      created_by: USER,
+      last_edited_by: USER,
+      cover: toFileResponse(body.cover as Json | undefined),
+      icon: toIconResponse(body.icon as Json | undefined),
+      parent: pageParent,
+      archived: false,
+      in_trash: false,
+      is_locked: false,
+      properties,
+      url: "",
+      public_url: null,
+    };
+    page.url = notionUrl(pageTitle(page), id);
+    this.pages.set(id, page);
+    this.childIds.set(id, []);
+
+    if (pageParent.type === "page_id") {
+      this.insertBlocks(pageParent.page_id as string, [{ child_page: { title: pageTitle(page) } }], undefined, id);
+    }
+    if (Array.isArray(body.children)) {
+      validateChildren(body.children as Json[], "body.children");
+      this.insertBlocks(id, body.children as Json[]);
+    }
+    return page;
+  }
+
+  private updatePage(id: string, body: Json): Json {
+    const page = this.requirePage(id);
+    if (body.properties) {
+      const parent = page.parent as Json;
+      const updates =
+        parent.type === "data_source_id"
+          ? this.buildRowProperties(this.requireDataSource(parent.data_source_id as string), body.properties as Json)
+          : { title: toPropertyResponse("title", "title", (body.properties as Json).title) };
+      page.properties = { ...(page.properties as Json), ...updates };
+      this.syncChildPageTitle(page);
+    }
+    if ("icon" in body) page.icon = toIconResponse(body.icon as Json | null);
+    if ("cover" in body) page.cover = toFileResponse(body.cover as Json | null);
+    if (typeof body.archived === "boolean" || typeof body.in_trash === "boolean") {
+      const archived = Boolean(body.archived ?? body.in_trash);
+      page.archived = archived;
+      page.in_trash = archived;
+      if (archived) this.detachBlock(id);
+    }
+    page.last_edited_time = this.tick();
+    return page;
+  }
+
+  private movePage(id: string, body: Json): Json {
+    const page = this.requirePage(id);
+    const parent = body.parent as Json;
+    this.detachBlock(id);
+    if (typeof parent.page_id === "string") {
+      const parentId = this.requireContainer(parent.page_id);
+      page.parent = { type: "page_id", page_id: parentId };
+      this.insertBlocks(parentId, [{ child_page: { title: pageTitle(page) } }], undefined, id);
+    } else if (typeof parent.data_source_id === "string") {
+      const ds = this.requireDataSource(parent.data_source_id);
+      page.parent = {
+        type: "data_source_id",
+        data_source_id: ds.id,
+        database_id: (ds.parent as Json).database_id,
+      };
+    } else {
+      throw new HttpError(400, "validation_error", "body.parent should be defined");
+    }
+    page.last_edited_time = this.tick();
+    return page;
+  }
+
+  private buildRowProperties(ds: Json, input: Json): Json {
+    const schema = ds.properties as Record<string, Json>;
+    const result: Json = {};
+    for (const [name, value] of Object.entries(input)) {
+      const prop = schema[name] ?? Object.values(schema).find((p) => p.id === name);
+      if (!prop) {
+        throw new HttpError(400, "validation_error", `${name} is not a property that exists.`);
+      }
+      result[prop.name as string] = toPropertyResponse(prop.id as string, prop.type as string, value, prop);
+    }
+    // 未指定のプロパティは空値で埋める（新規作成時）
+    for (const [name, prop] of Object.entries(schema)) {
+      if (!(name in result) && !(name in input)) {
+        result[name] = toPropertyResponse(prop.id as string, prop.type as string, undefined, prop);
+      }
+    }
+    return result;
+  }
+
+  private syncChildPageTitle(page: Json): void {
+    const block = this.blocks.get(page.id as string);
+    if (block && block.type === "child_page") {
+      block.child_page = { title: pageTitle(page) };
+    }
+  }
+
+  // ─── Blocks ───
+
+  private listBlockChildren(id: string, query: URLSearchParams): Json {
+    this.requireContainer(id);
+    const all = this.children(id);
+    return paginate(all, query.get("start_cursor") ?? undefined, Number(query.get("page_size") ?? 100), {
+      type: "block",
+      block: {},
+    });
+  }
+
+  private appendBlockChildren(id: string, body: Json): Json {
+    this.requireContainer(id);
+    const children = body.children as Json[] | undefined;
+    if (!Array.isArray(children) || children.length === 0) {
+      throw new HttpError(400, "validation_error", "body.children should be defined");
+    }
+    validateChildren(children, "body.children");
+    const position = body.position as Json | undefined;
+    let after = typeof body.after === "string" ? body.after : undefined;
+    if (position?.type === "after_block") after = (position.after_block as Json).id as string;
+    const atStart = position?.type === "start";
+
+    const created = this.insertBlocks(id, children, atStart ? null : after);
+    this.touch(id);
+    return { object: "list", results: created, next_cursor: null, has_more: false, type: "block", block: {} };
+  }
+
+  private updateBlock(id: string, body: Json): Json {
+    const block = this.requireBlock(id);
+    const type = block.type as string;
+    if (body.archived === true || body.in_trash === true) return this.deleteBlock(id);
+    if (body[type]) {
+      const { children: _children, ...data } = body[type] as Json;
+      block[type] = { ...(block[type] as Json), ...convertBlockData(data) };
+    }
+    block.last_edited_time = this.tick();
+    return block;
+  }
+
+  private deleteBlock(id: string): Json {
+    const block = this.requireBlock(id);
+    block.archived = true;
+    block.in_trash = true;
+    this.detachBlock(id);
+    const page = this.pages.get(id);
+    if (page) {
+      page.archived = true;
+      page.in_trash = true;
+    }
+    return block;
+  }
+
+  /**
+   * ブロックを挿入する。after: 指定ブロックの直後、null: 先頭、undefined: 末尾。
+   * objectId を指定すると child_page / child_database としてそのIDで登録する。
+   */
+  private insertBlocks(parentId: string, children: Json[], after?: string | null, objectId?: string): Json[] {
+    const list = this.childIds.get(parentId) ?? [];
+    let index = list.length;
+    if (after === null) {
+      index = 0;
+    } else if (after !== undefined) {
+      const found = list.indexOf(after);
+      if (found === -1) throw new HttpError(400, "validation_error", `Block ${after} is not a child of ${parentId}`);
+      index = found + 1;
+    }
+
+    const created: Json[] = [];
+    for (const request of children) {
+      const block = this.createBlock(parentId, request, objectId);
+      list.splice(index++, 0, block.id as string);
+      created.push(block);
+    }
+    this.childIds.set(parentId, list);
+    const parentBlock = this.blocks.get(parentId);
+    if (parentBlock) parentBlock.has_children = list.length > 0;
+    return created;
+  }
+
+  private createBlock(parentId: string, request: Json, objectId?: string): Json {
+    const type = (request.type as string | undefined) ?? Object.keys(request).find((k) => k !== "object")!;
+    const { children, ...data } = (request[type] ?? {}) as Json;
+    const id = objectId ?? this.nextId();
+    const now = this.tick();
+    const block: Json = {
+      object: "block",
+      id,
+      parent: this.pages.has(parentId)
+        ? { type: "page_id", page_id: parentId }
+        : { type: "block_id", block_id: parentId },
+      created_time: now,
+      last_edited_time: now,
+      created_by: USER,
+      last_edited_by: USER,
+      has_children: false,
+      archived: false,
+      in_trash: false,
+      type,
+      [type]: convertBlockData(data),
+    };
+    this.blocks.set(id, block);
+    if (!this.childIds.has(id)) this.childIds.set(id, []);
+    if (Array.isArray(children) && children.length > 0) {
+      this.insertBlocks(id, children as Json[]);
+    }
+    return block;
+  }
+
+  /** 親の子リストからブロックを外す */
+  private detachBlock(id: string): void {
+    for (const [parentId, list] of this.childIds) {
+      const index = list.indexOf(id);
+      if (index !== -1) {
+        list.splice(index, 1);
+        const parentBlock = this.blocks.get(parentId);
+        if (parentBlock) parentBlock.has_children = list.length > 0;
+        return;
+      }
+    }
+  }
+
+  private touch(id: string): void {
+    const page = this.pages.get(id);
+    if (page) page.last_edited_time = this.tick();
+  }
+
+  // ─── Databases / data sources ───
+
+  private firstDataSourceId(databaseId: string): string {
+    const db = this.requireDatabase(databaseId);
+    return ((db.data_sources as Json[])[0] as Json).id as string;
+  }
+
+  private updateDataSource(id: string, body: Json): Json {
+    const ds = this.requireDataSource(id);
+    const schema = ds.properties as Record<string, Json>;
+    for (const [name, change] of Object.entries((body.properties as Json) ?? {})) {
+      const existing = schema[name];
+      if (change === null) {
+        if (!existing) throw new HttpError(400, "validation_error", `${name} is not a property that exists.`);
+        delete schema[name];
+        this.forEachRow(id, (row) => delete (row.properties as Json)[name]);
+        continue;
+      }
+      const config = change as Json;
+      if (existing && typeof config.name === "string" && !config.type) {
+        delete schema[name];
+        schema[config.name] = { ...existing, name: config.name };
+        this.forEachRow(id, (row) => {
+          const props = row.properties as Json;
+          props[config.name as string] = props[name];
+          delete props[name];
+        });
+        continue;
+      }
+      const type = (config.type as string | undefined) ?? Object.keys(config).find((k) => k !== "name")!;
+      const optionsConfig = config[type] as Json | undefined;
+      const options = Array.isArray(optionsConfig?.options)
+        ? (optionsConfig.options as Json[]).map((o) => o.name as string)
+        : undefined;
+      schema[name] = buildPropertySchema(name, { type, options });
+      this.forEachRow(id, (row) => {
+        (row.properties as Json)[name] = toPropertyResponse(schema[name].id as string, type, undefined, schema[name]);
+      });
+    }
+    ds.last_edited_time = this.tick();
+    return ds;
+  }
+
+  private queryDataSource(id: string, body: Json): Json {
+    this.requireDataSource(id);
+    let rows = this.rowsOf(id).filter((row) => !row.archived);
+    if (body.filter) {
+      rows = rows.filter((row) => matchesFilter(row, body.filter as Json));
+    }
+    if (Array.isArray(body.sorts)) {
+      rows = sortRows(rows, body.sorts as Json[]);
+    }
+    return paginate(rows, body.start_cursor as string | undefined, Number(body.page_size ?? 100), {
+      type: "page_or_data_source",
+      page_or_data_source: {},
+    });
+  }
+
+  private rowsOf(dataSourceId: string): Json[] {
+    return [...this.pages.values()].filter(
+      (page) => (page.parent as Json).data_source_id === dataSourceId
+    );
+  }
+
+  private forEachRow(dataSourceId: string, fn: (row: Json) => void): void {
+    this.rowsOf(dataSourceId).forEach(fn);
+  }
+
+  // ─── Search ───
+
+  private search(body: Json): Json {
+    const query = String(body.query ?? "").toLowerCase();
+    const filter = body.filter as Json | undefined;
+    const candidates: Json[] = [];
+
+    if (!filter || filter.value === "page") {
+      candidates.push(...[...this.pages.values()].filter((p) => !p.archived));
+    }
+    if (!filter || filter.value === "data_source") {
+      candidates.push(...[...this.dataSources.values()].filter((d) => !d.archived));
+    }
+
+    let results = candidates.filter((item) => {
+      const title = item.object === "page" ? pageTitle(item) : richTextPlain(item.title as Json[]);
+      return title.toLowerCase().includes(query);
+    });
+
+    const sort = body.sort as Json | undefined;
+    results.sort((a, b) => String(b.last_edited_time).localeCompare(String(a.last_edited_time)));
+    if (sort?.direction === "ascending") results = results.reverse();
+
+    return paginate(results, body.start_cursor as string | undefined, Number(body.page_size ?? 100), {
+      type: "page_or_data_source",
+      page_or_data_source: {},
+    });
+  }
+
+  // ─── Comments ───
+
+  private createComment(body: Json): Json {
+    const parent = body.parent as Json;
+    const pageId = this.requirePage(parent.page_id as string).id as string;
+    const now = this.tick();
+    const comment: Json = {
+      object: "comment",
+      id: this.nextId(),
+      parent: { type: "page_id", page_id: pageId },
+      discussion_id: this.nextId(),
+      created_time: now,
+      last_edited_time: now,
+      created_by: USER,
+      rich_text: toRichTextResponse(body.rich_text as Json[]),
+    };
+    this.comments.push(comment);
+    return comment;
+  }
+
+  private listComments(query: URLSearchParams): Json {
+    const blockId = query.get("block_id") ?? "";
+    this.requireContainer(blockId);
+    const comments = this.comments.filter((c) => (c.parent as Json).page_id === blockId);
+    return paginate(comments, query.get("start_cursor") ?? undefined, Number(query.get("page_size") ?? 100), {
+      type: "comment",
+      comment: {},
+    });
+  }
+
+  // ─── Lookup ───
+
+  private requirePage(id: string): Json {
+    const page = this.pages.get(id);
+    if (!page) throw notFound("page", id);
+    return page;
+  }
+
+  private requireBlock(id: string): Json {
+    const block = this.blocks.get(id);
+    if (!block || block.archived) throw notFound("block", id);
+    return block;
+  }
+
+  private requireDatabase(id: string): Json {
+    const db = this.databases.get(id);
+    if (!db) throw notFound("database", id);
+    return db;
+  }
+
+  private requireDataSource(id: string): Json {
+    const ds = this.dataSources.get(id);
+    if (!ds) throw notFound("data_source", id);
+    return ds;
+  }
+
+  /** 子ブロックを持てるページ/ブロックのIDを検証して返す */
+  private requireContainer(id: string): string {
+    if (this.pages.has(id) || this.blocks.has(id)) return id;
+    throw notFound("block", id);
+  }
+
+  private nextId(): string {
+    this.sequence++;
+    const hex = this.sequence.toString(16).padStart(12, "0");
+    return `00000000-0000-4000-8000-${hex}`;
+  }
+
+  /** 1操作ごとに1分進む擬似時計 */
+  private tick(): string {
+    this.clock++;
+    return new Date(BASE_TIME + this.clock * 60_000).toISOString();
+  }
+}
+
+// ─── Response helpers ───
+
+function respond(status: number, body: unknown, headers: Record<string, string> = {}): FakeResponse {
+  const text = JSON.stringify(body);
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    headers: new Headers({ "content-type": "application/json", ...headers }),
+    text: async () => text,
+  };
+}
+
+function errorBody(status: number, code: string, message: string): Json {
+  return { object: "error", status, code, message, request_id: "fake-request" };
+}
+
+function notFound(kind: string, id: string): HttpError {
+  return new HttpError(
+    404,
+    "object_not_found",
+    `Could not find ${kind} with ID: ${id}. Make sure the relevant pages and databases are shared with your integration.`
+  );
+}
+
+function matchPath(path: string, pattern: string | RegExp): boolean {
+  return typeof pattern === "string" ? path === pattern : pattern.test(path);
+}
+
+/**
+ * Notion の children の制限を再現する: 配列は100件まで、ネストは2段まで。
+ */
+function validateChildren(children: Json[], path: string, depth = 0): void {
+  if (children.length > 100) {
+    throw new HttpError(400, "validation_error", `${path}.length should be ≤ \`100\``);
+  }
+  children.forEach((child, i) => {
+    const type = (child.type as string | undefined) ?? Object.keys(child).find((k) => k !== "object")!;
+    const nested = (child[type] as Json | undefined)?.children as Json[] | undefined;
+    if (!Array.isArray(nested) || nested.length === 0) return;
+    const nestedPath = `${path}[${i}].${type}.children`;
+    if (depth >= 2) {
+      throw new HttpError(400, "validation_error", `${nestedPath} should be not present`);
+    }
+    validateChildren(nested, nestedPath, depth + 1);
+  });
+}
+
+/** start_cursor は次ページ先頭要素のID */
+function paginate(items: Json[], cursor: string | undefined, pageSize: number, extra: Json): Json {
+  const size = Math.min(Math.max(pageSize || 100, 1), 100);
+  const start = cursor ? Math.max(items.findIndex((item) => item.id === cursor), 0) : 0;
+  const results = items.slice(start, start + size);
+  const next = items[start + size];
+  return {
+    object: "list",
+    results,
+    next_cursor: next ? (next.id as string) : null,
+    has_more: Boolean(next),
+    ...extra,
+  };
+}
+
+function notionUrl(title: string, id: string): string {
+  const slug = title.replace(/[^A-Za-z0-9]+/g, "-").replace(/^-|-$/g, "");
+  return `https://www.notion.so/${slug ? `${slug}-` : ""}${id.replace(/-/g, "")}`;
+}
+
+// ─── Rich text / blocks ───
+
+function toRichTextResponse(items: Json[] | undefined): Json[] {
+  return (items ?? []).map((item) => {
+    const annotations = {
+      bold: false,
+      italic: false,
+      strikethrough: false,
+      underline: false,
+      code: false,
+      color: "default",
+      ...((item.annotations as Json) ?? {}),
+    };
+    if (item.equation) {
+      const expression = (item.equation as Json).expression as string;
+      return { type: "equation", equation: { expression }, annotations, plain_text: expression, href: null };
+    }
+    if (item.mention) {
+      return { type: "mention", mention: item.mention, annotations, plain_text: "", href: null };
+    }
+    const text = item.text as Json;
+    const link = (text.link as Json | null | undefined) ?? null;
+    return {
+      type: "text",
+      text: { content: text.content, link },
+      annotations,
+      plain_text: text.content,
+      href: link ? link.url : null,
+    };
+  });
+}
+
+function convertBlockData(data: Json): Json {
+  const result: Json = { ...data };
+  if (Array.isArray(data.rich_text)) result.rich_text = toRichTextResponse(data.rich_text as Json[]);
+  if (Array.isArray(data.caption)) result.caption = toRichTextResponse(data.caption as Json[]);
+  if (Array.isArray(data.cells)) {
+    result.cells = (data.cells as Json[][]).map((cell) => toRichTextResponse(cell));
+  }
+  if (data.external && !data.type) result.type = "external";
+  if ("rich_text" in result && !("color" in result)) result.color = "default";
+  return result;
+}
+
+function richTextPlain(items: Json[] | undefined): string {
+  return (items ?? []).map((t) => t.plain_text as string).join("");
+}
+
+function blockPlainText(block: Json): string {
+  const type = block.type as string;
+  const data = block[type] as Json;
+  if (type === "child_page" || type === "child_database") return data.title as string;
+  return richTextPlain(data.rich_text as Json[] | undefined);
+}
+
+function pageTitle(page: Json): string {
+  const title = Object.values(page.properties as Record<string, Json>).find((p) => p.type === "title");
+  return title ? richTextPlain(title.title as Json[]) : "";
+}
+
+function toIconResponse(icon: Json | null | undefined): Json | null {
+  if (!icon) return null;
+  if (typeof icon.emoji === "string") return { type: "emoji", emoji: icon.emoji };
+  if (icon.external) return { type: "external", external: icon.external };
+  return null;
+}
+
+function toFileResponse(file: Json | null | undefined): Json | null {
+  if (!file) return null;
+  if (file.external) return { type: "external", external: file.external };
+  return null;
+}
+
+// ─── Properties ───
+
+function buildPropertySchema(name: string, def: { type: string; options?: string[] }): Json {
+  const config: Json = {};
+  if (def.type === "select" || def.type === "multi_select") {
+    config.options = (def.options ?? []).map((option, i) => ({ id: `opt-${i}`, name: option, color: "default" }));
+  } else if (def.type === "status") {
+    const options = (def.options ?? ["Not started", "In progress", "Done"]).map((option, i) => ({
+      id: `status-${i}`,
+      name: option,
+      color: "default",
+    }));
+    config.options = options;
+    config.groups = [{ id: "group-all", name: "All", color: "default", option_ids: options.map((o) => o.id) }];
+  } else if (def.type === "number") {
+    config.format = "number";
+  }
+  return {
+    id: def.type === "title" ? "title" : name.toLowerCase().replace(/[^a-z0-9]+/g, "_"),
+    name,
+    type: def.type,
+    [def.type]: config,
+  };
+}
+
+/** 素の値をプロパティ値リクエストに変換する（addRow 用） */
+function simpleToPropertyRequest(type: string, value: unknown): Json {
+  switch (type) {
+    case "title":
+    case "rich_text":
+      return { [type]: [{ text: { content: String(value) } }] };
+    case "select":
+    case "status":
+      return { [type]: value === null ? null : { name: String(value) } };
+    case "multi_select":
+      return { multi_select: (value as unknown[]).map((v) => ({ name: String(v) })) };
+    case "date":
+      return { date: value === null ? null : { start: String(value) } };
+    case "relation":
+    case "people":
+      return { [type]: (value as unknown[]).map((v) => ({ id: String(v) })) };
+    default:
+      return { [type]: value };
+  }
+}
+
+/** プロパティ値リクエストをレスポンス形式に変換する */
+function toPropertyResponse(id: string, type: string, request: unknown, schema?: Json): Json {
+  const raw = request && typeof request === "object" && !Array.isArray(request)
+    ? (request as Json)[type]
+    : request;
+  let value: unknown;
+
+  switch (type) {
+    case "title":
+    case "rich_text":
+      value = toRichTextResponse(Array.isArray(raw) ? (raw as Json[]) : []);
+      break;
+    case "select":
+    case "status":
+      value = raw ? { id: optionId(schema, type, (raw as Json).name as string), name: (raw as Json).name, color: "default" } : null;
+      break;
+    case "multi_select":
+      value = ((raw as Json[] | undefined) ?? []).map((o) => ({
+        id: optionId(schema, type, o.name as string),
+        name: o.name,
+        color: "default",
+      }));
+      break;
+    case "date":
+      value = raw ? { start: (raw as Json).start, end: (raw as Json).end ?? null, time_zone: null } : null;
+      break;
+    case "people":
+    case "relation":
+    case "files":
+      value = (raw as unknown[] | undefined) ?? [];
+      break;
+    case "checkbox":
+      value = Boolean(raw);
+      break;
+    case "number":
+    case "url":
+    case "email":
+    case "phone_number":
+      value = raw ?? null;
+      break;
+    default:
+      value = raw ?? null;
+  }
+  return { id, type, [type]: value };
+}
+
+function optionId(schema: Json | undefined, type: string, name: string): string {
+  const options = ((schema?.[type] as Json | undefined)?.options as Json[] | undefined) ?? [];
+  const found = options.find((o) => o.name === name);
+  return (found?.id as string | undefined) ?? `opt-${name}`;
+}
+
+/** フィルタ・ソート用にプロパティ値を比較可能な値にする */
+function comparableValue(prop: Json | undefined): unknown {
+  if (!prop) return null;
+  const type = prop.type as string;
+  const value = prop[type];
+  switch (type) {
+    case "title":
+    case "rich_text":
+      return richTextPlain(value as Json[]);
+    case "select":
+    case "status":
+      return value ? (value as Json).name : null;
+    case "multi_select":
+      return (value as Json[]).map((o) => o.name);
+    case "date":
+      return value ? (value as Json).start : null;
+    default:
+      return value ?? null;
+  }
+}
+
+function matchesFilter(row: Json, filter: Json): boolean {
+  if (Array.isArray(filter.and)) return (filter.and as Json[]).every((f) => matchesFilter(row, f));
+  if (Array.isArray(filter.or)) return (filter.or as Json[]).some((f) => matchesFilter(row, f));
+
+  const props = row.properties as Record<string, Json>;
+  const actual = comparableValue(props[filter.property as string]);
+  const condition = Object.entries(filter).find(([key]) => key !== "property" && key !== "type");
+  if (!condition) return true;
+  const [op, expected] = Object.entries(condition[1] as Json)[0];
+
+  switch (op) {
+    case "equals":
+      return Array.isArray(actual) ? actual.includes(expected) : actual === expected;
+    case "does_not_equal":
+      return actual !== expected;
+    case "contains":
+      return Array.isArray(actual)
+        ? actual.includes(expected)
+        : String(actual ?? "").includes(String(expected));
+    case "does_not_contain":
+      return Array.isArray(actual)
+        ? !actual.includes(expected)
+        : !String(actual ?? "").includes(String(expected));
+    case "greater_than":
+    case "after":
+      return actual !== null && (actual as number | string) > (expected as number | string);
+    case "less_than":
+    case "before":
+      return actual !== null && (actual as number | string) < (expected as number | string);
+    case "greater_than_or_equal_to":
+    case "on_or_after":
+      return actual !== null && (actual as number | string) >= (expected as number | string);
+    case "less_than_or_equal_to":
+    case "on_or_before":
+      return actual !== null && (actual as number | string) <= (expected as number | string);
+    case "is_empty":
+      return actual === null || actual === "" || (Array.isArray(actual) && actual.length === 0);
+    case "is_not_empty":
+      return !(actual === null || actual === "" || (Array.isArray(actual) && actual.length === 0));
+    default:
+      return true;
+  }
+}
+
+function sortRows(rows: Json[], sorts: Json[]): Json[] {
+  return [...rows].sort((a, b) => {
+    for (const sort of sorts) {
+      const key = (row: Json) =>
+        sort.timestamp
+          ? row[sort.timestamp as string]
+          : comparableValue((row.properties as Record<string, Json>)[sort.property as string]);
+      const av = key(a) as number | string | null;
+      const bv = key(b) as number | string | null;
+      if (av === bv) continue;
+      const order = av === null ? 1 : bv === null ? -1 : av < bv ? -1 : 1;
+      return sort.direction === "descending" ? -order : order;
+    }
+    return 0;
+  });
+}
@@ -0,0 +1,62 @@
+/**
+ * 統合テスト用: FakeNotion に向けたMCPサーバーとクライアントをインメモリで接続する
+ */
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { LogLevel } from "@notionhq/client";
+import { createServer } from "../../src/server.js";
+import { setClientOptions, setRateLimitOptions } from "../../src/notion/client.js";
+import { resetConfig } from "../../src/config.js";
+import { FakeNotion } from "./fake-notion.js";
+
+/** テストでは待ち時間を最小にする（再試行の回数は本番と同じ） */
+export const FAST_RATE_LIMIT = { requestsPerSecond: 10_000, burst: 10_000, baseDelayMs: 1, maxDelayMs: 5 };
+
+export interface ToolResult {
+  text: string;
+  isError: boolean;
+  structured: Record<string, any>;
+}
+
+export interface TestSession {
+  fake: FakeNotion;
+  client: Client;
+  call: (name: string, args: Record<string, unknown>) => Promise<ToolResult>;
+  close: () => Promise<void>;
+}
+
+/**
+ * FakeNotion を用意し、サーバーの Notion Client をそれに向けて接続する。
+ */
+export async function connectFakeServer(fake = new FakeNotion()): Promise<TestSession> {
+  process.env.NOTION_API_KEY = "secret_test";
+  resetConfig();
+  setClientOptions({ fetch: fake.fetch, logLevel: LogLevel.ERROR });
+  setRateLimitOptions(FAST_RATE_LIMIT);
+
+  const server = createServer();
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  const client = new Client({ name: "integration-test", version: "0.0.0" });
+  await client.connect(clientTransport);
+
+  return {
+    fake,
+    client,
+    call: async (name, args) => {
+      const result = await client.callTool({ name, arguments: args });
+      const content = result.content as Array<{ type: string; text?: string }>;
+      return {
+        text: content.map((c) => c.text ?? "").join("\n"),
+        isError: result.isError === true,
+        structured: (result.structuredContent ?? {}) as Record<string, any>,
+      };
+    },
+    close: async () => {
+      await client.close();
+      await server.close();
+      setClientOptions({});
+      setRateLimitOptions({});
+    },
+  };
+}
@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { connectFakeServer, type TestSession } from "../helpers/mcp.js";
+
+describe("metadata cache", () => {
+  let session: TestSession;
+  let rootId: string;
+  let tasks: { databaseId: string; dataSourceId: string };
+
+  beforeEach(async () => {
+    session = await connectFakeServer();
+    rootId = session.fake.addPage({ title: "Projects" });
+    tasks = session.fake.addDatabase({
+      title: "Tasks",
+      parent: rootId,
+      properties: { Name: "title", Status: { type: "select", options: ["Todo", "Done"] } },
+    });
+  });
+
+  afterEach(async () => {
+    delete process.env.NOTION_CACHE_TTL;
+    delete process.env.NOTION_API_KEY_OTHER;
+    await session.close();
+  });
+
+  const schemaFetches = () => session.fake.requestsTo("GET", `data_sources/${tasks.dataSourceId}`).length;
+  const databaseFetches = () => session.fake.requestsTo("GET", `databases/${tasks.databaseId}`).length;
+
+  it("should fetch the schema once for a batch into one database", async () => {
+    const markdown = [1, 2, 3]
+      .map((n) => `---\ntitle: Task ${n}\ndatabase: ${tasks.databaseId}\nproperties:\n  Status: Todo\n---\nBody ${n}`)
+      .join("\n===\n");
+
+    const result = await session.call("write", { markdown });
+
+    expect(result.structured.succeeded).toBe(3);
+    expect(databaseFetches()).toBe(1);
+    expect(schemaFetches()).toBe(1);
+  });
+
+  it("should invalidate the schema after schema mutations", async () => {
+    await session.call("list", { target: tasks.databaseId });
+    await session.call("schema", { database: tasks.databaseId, action: "add", property: "Owner", type: "rich_text" });
+
+    const result = await session.call("list", { target: tasks.databaseId });
+
+    expect(result.structured.columns).toContain("Owner");
+  });
+
+  it("should refetch when a write names a property missing from the cached schema", async () => {
+    await session.call("list", { target: tasks.databaseId });
+    const ds = session.fake.dataSources.get(tasks.dataSourceId)!;
+    (ds.properties as Record<string, unknown>).Estimate = { id: "estimate", name: "Estimate", type: "number", number: { format: "number" } };
+
+    const result = await session.call("write", {
+      markdown: `---\ntitle: Sized\ndatabase: ${tasks.databaseId}\nproperties:\n  Estimate: 3\n---\n`,
+    });
+
+    const row = session.fake.pages.get(result.structured.results[0].id)!;
+    expect((row.properties as Record<string, any>).Estimate.number).toBe(3);
+  });
+
+  it("should refetch at most once for property names missing from the schema", async () => {
+    await session.call("list", { target: tasks.databaseId });
+    const doc = (n: number) => `---\ntitle: Task ${n}\ndatabase: ${tasks.databaseId}\nproperties:\n  Statsu: Todo\n---\n`;
+
+    await session.call("write", { markdown: doc(1) });
+    await session.call("write", { markdown: [doc(2), doc(3), doc(4)].join("\n===\n") });
+
+    expect(schemaFetches()).toBe(2);
+  });
+
+  it("should invalidate the schema when a write adds a new select option", async () => {
+    await session.call("write", {
+      markdown: `---\ntitle: New option\ndatabase: ${tasks.databaseId}\nproperties:\n  Status: Blocked\n---\n`,
+    });
+    // Notion はオプションを自動追加する
+    const ds = session.fake.dataSources.get(tasks.dataSourceId)!;
+    (ds.properties as Record<string, any>).Status.select.options.push({ id: "opt-b", name: "Blocked", color: "default" });
+
+    const result = await session.call("schema", { database: tasks.databaseId });
+
+    expect(result.text).toContain("Todo, Done, Blocked");
+  });
+
+  it("should cache resolved names until a write changes titles", async () => {
+    const pageId = session.fake.addPage({ title: "Roadmap", parent: rootId });
+
+    await session.call("comment", { page: "Roadmap", body: "one" });
+    await session.call("comment", { page: "Roadmap", body: "two" });
+    expect(session.fake.requestsTo("POST", "search")).toHaveLength(1);
+
+    await session.call("write", { markdown: `---\nid: ${pageId}\ntitle: Roadmap 2027\n---\n` });
+    const stale = await session.call("comment", { page: "Roadmap", body: "three" });
+
+    expect(stale.isError).toBe(true);
+    expect(stale.text).toContain("NOT_FOUND");
+  });
+
+  it("should bypass the cache with refresh", async () => {
+    await session.call("list", { target: tasks.databaseId });
+    await session.call("list", { target: tasks.databaseId });
+    expect(schemaFetches()).toBe(1);
+
+    await session.call("list", { target: tasks.databaseId, refresh: true });
+    expect(schemaFetches()).toBe(2);
+  });
+
+  it("should scope cached entries to the workspace", async () => {
+    process.env.NOTION_API_KEY_OTHER = "secret_other";
+
+    await session.call("list", { target: tasks.databaseId });
+    await session.call("list", { target: tasks.databaseId, workspace: "other" });
+
+    expect(schemaFetches()).toBe(2);
+  });
+
+  it("should not cache when NOTION_CACHE_TTL is 0", async () => {
+    process.env.NOTION_CACHE_TTL = "0";
+
+    await session.call("list", { target: tasks.databaseId });
+    await session.call("list", { target: tasks.databaseId });
+
+    expect(schemaFetches()).toBe(2);
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { LogLevel } from "@notionhq/client";
+import { runCli, isCliCommand } from "../../src/cli.js";
+import { setClientOptions, setRateLimitOptions } from "../../src/notion/client.js";
+import { FAST_RATE_LIMIT } from "../helpers/mcp.js";
+import { resetConfig } from "../../src/config.js";
+import { FakeNotion } from "../helpers/fake-notion.js";
+
+describe("CLI", () => {
+  let fake: FakeNotion;
+  let rootId: string;
+  let stdout: string;
+  let stderr: string;
+
+  beforeEach(() => {
+    process.env.NOTION_API_KEY = "secret_test";
+    resetConfig();
+    fake = new FakeNotion();
+    setClientOptions({ fetch: fake.fetch, logLevel: LogLevel.ERROR });
+    setRateLimitOptions(FAST_RATE_LIMIT);
+    rootId = fake.addPage({ title: "Projects" });
+
+    stdout = "";
+    stderr = "";
+    vi.spyOn(process.stdout, "write").mockImplementation((chunk) => {
+      stdout += String(chunk);
+      return true;
+    });
+    vi.spyOn(process.stderr, "write").mockImplementation((chunk) => {
+      stderr += String(chunk);
+      return true;
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    setClientOptions({});
+    setRateLimitOptions({});
+  });
+
+  it("should recognize subcommands", () => {
+    expect(isCliCommand("read")).toBe(true);
+    expect(isCliCommand("help")).toBe(true);
+    expect(isCliCommand("--http")).toBe(false);
+    expect(isCliCommand("toString")).toBe(false);
+    expect(isCliCommand(undefined)).toBe(false);
+  });
+
+  it("should print a page as Markdown", async () => {
+    const pageId = fake.addPage({
+      title: "Notes",
+      parent: rootId,
+      children: [{ paragraph: { rich_text: [{ text: { content: "Hello" } }] } }],
+    });
+
+    const code = await runCli(["read", pageId]);
+
+    expect(code).toBe(0);
+    expect(stdout).toContain("title: Notes");
+    expect(stdout).toContain("Hello");
+  });
+
+  it("should write a Markdown file", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "better-notion-cli-"));
+    const file = join(dir, "page.md");
+    writeFileSync(file, `---\ntitle: From file\nparent: ${rootId}\n---\nBody\n`);
+
+    try {
+      const code = await runCli(["write", file, "--json"]);
+
+      expect(code).toBe(0);
+      const output = JSON.parse(stdout);
+      expect(output).toMatchObject({ total: 1, succeeded: 1 });
+      expect(fake.titleOf(output.results[0].id)).toBe("From file");
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("should pass flags through to list", async () => {
+    const { databaseId, dataSourceId } = fake.addDatabase({
+      title: "Tasks",
+      parent: rootId,
+      properties: { Name: "title", Status: { type: "select", options: ["Todo", "Done"] } },
+    });
+    fake.addRow(dataSourceId, { Name: "A", Status: "Done" });
+    fake.addRow(dataSourceId, { Name: "B", Status: "Todo" });
+
+    const code = await runCli(["list", databaseId, "--filter", "Status is Done", "--limit", "10"]);
+
+    expect(code).toBe(0);
+    expect(stdout).toContain("(filter: Status is Done) (1 items)");
+  });
+
+  it("should parse --set values for update", async () => {
+    const { dataSourceId } = fake.addDatabase({
+      title: "Tasks",
+      parent: rootId,
+      properties: { Name: "title", Done: "checkbox", Due: "date" },
+    });
+    const rowId = fake.addRow(dataSourceId, { Name: "A" });
+
+    const code = await runCli(["update", rowId, "--set", "Done=true", "--set", "Due=2026-03-01"]);
+
+    expect(code).toBe(0);
+    const props = fake.pages.get(rowId)!.properties as Record<string, any>;
+    expect(props.Done.checkbox).toBe(true);
+    expect(props.Due.date.start).toBe("2026-03-01");
+  });
+
+  it("should pass --set values that are not JSON, numbers or lists through as text", async () => {
+    const { dataSourceId } = fake.addDatabase({
+      title: "Tasks",
+      parent: rootId,
+      properties: { Name: "title", Summary: "rich_text", Notes: "rich_text", Place: "rich_text", Time: "rich_text", Tags: "multi_select", Points: "number" },
+    });
+    const rowId = fake.addRow(dataSourceId, { Name: "A" });
+
+    const code = await runCli([
+      "update", rowId,
+      "--set", "Summary=Fix bug #42",
+      "--set", "Notes=#1 priority",
+      "--set", "Place=@home",
+      "--set", "Time=Due: 10:30",
+      "--set", "Tags=[backend, urgent]",
+      "--set", "Points=3",
+    ]);
+
+    expect(code).toBe(0);
+    const props = fake.pages.get(rowId)!.properties as Record<string, any>;
+    expect(props.Summary.rich_text[0].plain_text).toBe("Fix bug #42");
+    expect(props.Notes.rich_text[0].plain_text).toBe("#1 priority");
+    expect(props.Place.rich_text[0].plain_text).toBe("@home");
+    expect(props.Time.rich_text[0].plain_text).toBe("Due: 10:30");
+    expect(props.Tags.multi_select.map((t: { name: string }) => t.name)).toEqual(["backend", "urgent"]);
+    expect(props.Points.number).toBe(3);
+  });
+
+  it("should exit with 1 and print tool errors to stderr", async () => {
+    const code = await runCli(["read", "0123456789abcdef0123456789abcdef"]);
+
+    expect(code).toBe(1);
+    expect(stderr).toContain("HTTP 404");
+  });
+
+  it("should exit with 2 on usage errors", async () => {
+    expect(await runCli(["move", rootId])).toBe(2);
+    expect(stderr).toContain("Missing argument: <to>");
+    expect(await runCli(["search", "x", "--bogus"])).toBe(2);
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { connectFakeServer, type TestSession } from "../helpers/mcp.js";
+
+describe("data sources", () => {
+  let session: TestSession;
+  let rootId: string;
+
+  beforeEach(async () => {
+    session = await connectFakeServer();
+    rootId = session.fake.addPage({ title: "Projects" });
+  });
+
+  afterEach(async () => {
+    await session.close();
+  });
+
+  it("should write to a single-source database by name", async () => {
+    const { dataSourceId } = session.fake.addDatabase({ title: "Tasks", parent: rootId, properties: { Name: "title" } });
+
+    const result = await session.call("write", { markdown: "---\ntitle: By name\ndatabase: Tasks\n---\n" });
+
+    expect(result.isError).toBe(false);
+    const row = session.fake.pages.get(result.structured.results[0].id)!;
+    expect(row.parent).toMatchObject({ data_source_id: dataSourceId });
+  });
+
+  it("should accept a data source ID wherever a database is expected", async () => {
+    const { databaseId, dataSourceId } = session.fake.addDatabase({ title: "Tasks", parent: rootId, properties: { Name: "title" } });
+    session.fake.addRow(dataSourceId, { Name: "Existing" });
+
+    const listed = await session.call("list", { target: dataSourceId });
+    const written = await session.call("write", { markdown: `---\ntitle: Via source\ndatabase: ${dataSourceId}\n---\n` });
+
+    expect(listed.structured).toMatchObject({ id: databaseId, dataSourceId, count: 1 });
+    expect(written.structured.succeeded).toBe(1);
+  });
+
+  describe("multi-source databases", () => {
+    let crm: { databaseId: string; dataSourceId: string };
+    let contactsId: string;
+
+    beforeEach(() => {
+      crm = session.fake.addDatabase({
+        title: "CRM",
+        parent: rootId,
+        dataSource: "Leads",
+        properties: { Name: "title", Stage: { type: "select", options: ["New", "Won"] } },
+      });
+      contactsId = session.fake.addDataSource(crm.databaseId, {
+        title: "Contacts",
+        properties: { Name: "title", Email: "email" },
+      });
+      session.fake.addRow(crm.dataSourceId, { Name: "Acme deal", Stage: "New" });
+      session.fake.addRow(contactsId, { Name: "Ada" });
+    });
+
+    it("should refuse to guess a data source", async () => {
+      const result = await session.call("list", { target: crm.databaseId });
+
+      expect(result.isError).toBe(true);
+      expect(result.text).toContain('Error [AMBIGUOUS]: Database "CRM" has 2 data sources. Name one, e.g. "CRM / Leads"');
+      expect(result.text).toContain(`"Contacts": ${contactsId}`);
+    });
+
+    it("should write to the named data source", async () => {
+      const result = await session.call("write", {
+        markdown: "---\ntitle: Grace\ndatabase: CRM / Contacts\nproperties:\n  Email: grace@example.com\n---\n",
+      });
+
+      const row = session.fake.pages.get(result.structured.results[0].id)!;
+      expect(row.parent).toMatchObject({ data_source_id: contactsId, database_id: crm.databaseId });
+      expect((row.properties as Record<string, any>).Email.email).toBe("grace@example.com");
+    });
+
+    it("should list a data source selected by path or ID", async () => {
+      const byPath = await session.call("list", { target: "Projects/CRM/Leads" });
+      const byId = await session.call("list", { target: `${crm.databaseId}/${contactsId}` });
+
+      expect(byPath.structured).toMatchObject({ id: crm.databaseId, dataSourceId: crm.dataSourceId });
+      expect(byPath.text).toContain("Acme deal");
+      expect(byId.structured.dataSourceId).toBe(contactsId);
+      expect(byId.text).toContain("Ada");
+    });
+
+    it("should show every data source in schema list", async () => {
+      const all = await session.call("schema", { database: crm.databaseId });
+      const one = await session.call("schema", { database: "CRM / Leads" });
+
+      expect(all.text).toContain("# CRM — 2 data sources");
+      expect(all.structured.dataSources.map((ds: { name: string }) => ds.name)).toEqual(["Leads", "Contacts"]);
+      expect(all.structured.dataSources[1].properties).toContainEqual({ name: "Email", type: "email" });
+      expect(one.structured.dataSourceId).toBe(crm.dataSourceId);
+      expect(one.text).toContain(`- Contacts (\`${contactsId}\`)`);
+    });
+
+    it("should require a data source for schema changes", async () => {
+      const result = await session.call("schema", { database: crm.databaseId, action: "add", property: "Owner", type: "rich_text" });
+
+      expect(result.isError).toBe(true);
+      expect(result.text).toContain("AMBIGUOUS");
+    });
+
+    it("should group data sources by database in search", async () => {
+      const result = await session.call("search", { query: "Contacts", filter: "database" });
+
+      expect(result.structured.results).toEqual([
+        expect.objectContaining({
+          id: crm.databaseId,
+          object: "database",
+          title: "CRM",
+          dataSources: [
+            { id: crm.dataSourceId, name: "Leads" },
+            { id: contactsId, name: "Contacts" },
+          ],
+        }),
+      ]);
+      expect(result.text).toContain(`Data sources: Leads (\`${crm.dataSourceId}\`), Contacts (\`${contactsId}\`)`);
+    });
+
+    it("should move a page into a named data source", async () => {
+      const pageId = session.fake.addPage({ title: "Lin", parent: rootId });
+
+      const result = await session.call("move", { page: pageId, to: "CRM / Contacts" });
+
+      expect(result.isError).toBe(false);
+      expect(session.fake.pages.get(pageId)!.parent).toMatchObject({ data_source_id: contactsId });
+    });
+  });
+});
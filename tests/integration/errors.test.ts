@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { connectFakeServer, type TestSession } from "../helpers/mcp.js";
+
+describe("Notion API errors", () => {
+  let session: TestSession;
+  let rootId: string;
+
+  beforeEach(async () => {
+    session = await connectFakeServer();
+    rootId = session.fake.addPage({ title: "Projects" });
+  });
+
+  afterEach(async () => {
+    await session.close();
+  });
+
+  it("should report 404 with a hint for unknown pages", async () => {
+    const result = await session.call("read", { page: "0123456789abcdef0123456789abcdef" });
+
+    expect(result.isError).toBe(true);
+    expect(result.text).toContain("Notion API Error (HTTP 404) [object_not_found]");
+    expect(result.text).toContain("Hint: Page or database not found.");
+  });
+
+  it("should retry 429 responses after Retry-After", async () => {
+    session.fake.failNext("POST", "search", 429, "rate_limited", { "retry-after": "0" });
+
+    const result = await session.call("search", { query: "Projects" });
+
+    expect(result.isError).toBe(false);
+    expect(result.structured.results).toHaveLength(1);
+    expect(session.fake.requestsTo("POST", "search")).toHaveLength(2);
+  });
+
+  it("should retry 5xx responses to reads with backoff but not creates", async () => {
+    session.fake.failNext("GET", `pages/${rootId}`, 503, "service_unavailable", {}, 2);
+
+    const result = await session.call("read", { page: rootId });
+
+    expect(result.isError).toBe(false);
+    expect(session.fake.requestsTo("GET", `pages/${rootId}`)).toHaveLength(3);
+
+    // 作成は反映済みかもしれないので 5xx でも再試行しない
+    session.fake.failNext("POST", "pages", 504, "gateway_timeout");
+
+    const created = await session.call("write", { markdown: `---\ntitle: Once\nparent: ${rootId}\n---\n` });
+
+    expect(created.isError).toBe(true);
+    expect(created.text).toContain("HTTP 504");
+    expect(session.fake.requestsTo("POST", "pages")).toHaveLength(1);
+  });
+
+  it("should report 429 once retries are exhausted", async () => {
+    session.fake.failNext("POST", "search", 429, "rate_limited", { "retry-after": "0" }, 10);
+
+    const result = await session.call("search", { query: "Projects" });
+
+    expect(result.isError).toBe(true);
+    expect(result.text).toContain("Notion API Error (HTTP 429) [rate_limited]");
+    expect(result.text).toContain("even after automatic retries");
+    expect(session.fake.requestsTo("POST", "search")).toHaveLength(5);
+  });
+
+  it("should not retry client errors", async () => {
+    session.fake.failNext("POST", "search", 400, "validation_error");
+
+    const result = await session.call("search", { query: "Projects" });
+
+    expect(result.isError).toBe(true);
+    expect(session.fake.requestsTo("POST", "search")).toHaveLength(1);
+  });
+
+  it("should keep going after a failed document in a batch", async () => {
+    session.fake.failNext("POST", "pages", 400, "validation_error");
+
+    const markdown = [
+      `---\ntitle: First\nparent: ${rootId}\n---\nOne`,
+      `---\ntitle: Second\nparent: ${rootId}\n---\nTwo`,
+    ].join("\n===\n");
+    const result = await session.call("write", { markdown });
+
+    expect(result.structured).toMatchObject({ total: 2, succeeded: 1, failed: 1 });
+    expect(result.structured.results[0]).toMatchObject({ status: "error" });
+    expect(result.structured.results[0].error).toContain("HTTP 400");
+    expect(result.structured.results[1]).toMatchObject({ status: "created", title: "Second" });
+  });
+
+  it("should report missing API keys for unknown workspaces", async () => {
+    const result = await session.call("search", { query: "x", workspace: "nowhere" });
+
+    expect(result.isError).toBe(true);
+    expect(result.text).toContain("UNKNOWN_WORKSPACE");
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { LogLevel } from "@notionhq/client";
+import { startHttpServer } from "../../src/http.js";
+import { setClientOptions, setRateLimitOptions } from "../../src/notion/client.js";
+import { resetConfig } from "../../src/config.js";
+import { FAST_RATE_LIMIT } from "../helpers/mcp.js";
+import { FakeNotion } from "../helpers/fake-notion.js";
+
+const TOKEN = "test-token";
+
+const INITIALIZE = {
+  jsonrpc: "2.0",
+  id: 1,
+  method: "initialize",
+  params: { protocolVersion: "2025-03-26", capabilities: {}, clientInfo: { name: "http-test", version: "0.0.0" } },
+};
+
+describe("HTTP transport", () => {
+  let server: Server;
+  let url: URL;
+
+  const post = (body: unknown, headers: Record<string, string> = {}) =>
+    fetch(url, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${TOKEN}`,
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        ...headers,
+      },
+      body: typeof body === "string" ? body : JSON.stringify(body),
+    });
+
+  beforeEach(async () => {
+    process.env.NOTION_API_KEY = "secret_test";
+    resetConfig();
+    const fake = new FakeNotion();
+    fake.addPage({ title: "Projects" });
+    setClientOptions({ fetch: fake.fetch, logLevel: LogLevel.ERROR });
+    setRateLimitOptions(FAST_RATE_LIMIT);
+
+    server = await startHttpServer({ port: 0, host: "127.0.0.1", token: TOKEN, maxBodyBytes: 16 * 1024 });
+    url = new URL(`http://127.0.0.1:${(server.address() as AddressInfo).port}/mcp`);
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+    setClientOptions({});
+    setRateLimitOptions({});
+  });
+
+  it("should serve a session from initialize to termination", async () => {
+    const transport = new StreamableHTTPClientTransport(url, {
+      requestInit: { headers: { Authorization: `Bearer ${TOKEN}` } },
+    });
+    const client = new Client({ name: "http-test", version: "0.0.0" });
+    await client.connect(transport);
+    const sessionId = transport.sessionId!;
+
+    const result = await client.callTool({ name: "search", arguments: { query: "Projects" } });
+    expect(result.isError).toBeFalsy();
+    expect(JSON.stringify(result.content)).toContain("Projects");
+
+    await transport.terminateSession();
+    await client.close();
+
+    const afterClose = await post({ jsonrpc: "2.0", id: 2, method: "tools/list" }, { "mcp-session-id": sessionId });
+    expect(afterClose.status).toBe(404);
+  });
+
+  it("should require the bearer token", async () => {
+    expect((await post(INITIALIZE, { Authorization: "" })).status).toBe(401);
+    expect((await post(INITIALIZE, { Authorization: "Bearer wrong" })).status).toBe(401);
+  });
+
+  it("should reject bad requests", async () => {
+    expect((await post({ jsonrpc: "2.0", id: 1, method: "tools/list" })).status).toBe(400);
+    expect((await post("{not json")).status).toBe(400);
+    expect((await fetch(new URL("/other", url), { method: "POST" })).status).toBe(404);
+    expect((await fetch(url, { method: "PUT", headers: { Authorization: `Bearer ${TOKEN}` } })).status).toBe(405);
+  });
+
+  it("should close sessions that stay idle", async () => {
+    const idle = await startHttpServer({ port: 0, host: "127.0.0.1", token: TOKEN, sessionIdleMs: 50 });
+    url = new URL(`http://127.0.0.1:${(idle.address() as AddressInfo).port}/mcp`);
+    try {
+      const initialized = await post(INITIALIZE);
+      await initialized.text();
+      const sessionId = initialized.headers.get("mcp-session-id")!;
+      const initializedNotice = { jsonrpc: "2.0", method: "notifications/initialized" };
+      expect((await post(initializedNotice, { "mcp-session-id": sessionId })).status).toBe(202);
+
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      expect((await post({ jsonrpc: "2.0", id: 2, method: "tools/list" }, { "mcp-session-id": sessionId })).status).toBe(404);
+    } finally {
+      idle.closeAllConnections();
+      await new Promise((resolve) => idle.close(resolve));
+    }
+  });
+
+  it("should reject bodies over the size limit with 413", async () => {
+    const response = await post({ ...INITIALIZE, padding: "x".repeat(32 * 1024) });
+
+    expect(response.status).toBe(413);
+    expect(await response.text()).toContain("Payload too large");
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { connectFakeServer, type TestSession } from "../helpers/mcp.js";
+
+describe("list / search", () => {
+  let session: TestSession;
+  let rootId: string;
+  let tasks: { databaseId: string; dataSourceId: string };
+
+  beforeEach(async () => {
+    session = await connectFakeServer();
+    const { fake } = session;
+    rootId = fake.addPage({ title: "Projects" });
+    tasks = fake.addDatabase({
+      title: "Tasks",
+      parent: rootId,
+      properties: {
+        Name: "title",
+        Status: { type: "select", options: ["Todo", "Done"] },
+        Score: "number",
+      },
+    });
+  });
+
+  afterEach(async () => {
+    await session.close();
+  });
+
+  describe("list", () => {
+    it("should list database rows as a table and structured rows", async () => {
+      session.fake.addRow(tasks.dataSourceId, { Name: "A", Status: "Todo", Score: 10 });
+      session.fake.addRow(tasks.dataSourceId, { Name: "B", Status: "Done", Score: 90 });
+
+      const result = await session.call("list", { target: tasks.databaseId });
+
+      expect(result.isError).toBe(false);
+      expect(result.text).toContain("# Tasks (2 items)");
+      expect(result.text).toContain("| ID | Name | Status | Score |");
+      expect(result.structured).toMatchObject({ type: "database", id: tasks.databaseId, count: 2 });
+      expect(result.structured.rows.map((r: { properties: { Name: string } }) => r.properties.Name)).toEqual(["A", "B"]);
+    });
+
+    it("should apply filter and sort expressions", async () => {
+      session.fake.addRow(tasks.dataSourceId, { Name: "Low", Status: "Done", Score: 10 });
+      session.fake.addRow(tasks.dataSourceId, { Name: "High", Status: "Done", Score: 90 });
+      session.fake.addRow(tasks.dataSourceId, { Name: "Open", Status: "Todo", Score: 50 });
+
+      const result = await session.call("list", {
+        target: tasks.databaseId,
+        filter: "Status is Done",
+        sort: "Score desc",
+      });
+
+      expect(result.structured.rows.map((r: { properties: { Name: string } }) => r.properties.Name)).toEqual(["High", "Low"]);
+      const query = session.fake.requestsTo("POST", `data_sources/${tasks.dataSourceId}/query`)[0];
+      expect(query.body).toMatchObject({
+        filter: { property: "Status", select: { equals: "Done" } },
+        sorts: [{ property: "Score", direction: "descending" }],
+      });
+    });
+
+    it("should paginate queries beyond 100 rows up to the limit", async () => {
+      for (let i = 1; i <= 130; i++) {
+        session.fake.addRow(tasks.dataSourceId, { Name: `Row ${i}`, Score: i });
+      }
+
+      const result = await session.call("list", { target: tasks.databaseId, limit: 120 });
+
+      expect(result.structured.count).toBe(120);
+      const queries = session.fake.requestsTo("POST", `data_sources/${tasks.dataSourceId}/query`);
+      expect(queries.map((q) => q.body?.page_size)).toEqual([100, 20]);
+      expect(queries[1].body?.start_cursor).toBeDefined();
+    });
+
+    it("should list child pages of a page", async () => {
+      session.fake.addPage({ title: "Alpha", parent: rootId, icon: "🅰️" });
+      session.fake.addPage({ title: "Beta", parent: rootId });
+
+      const result = await session.call("list", { target: rootId });
+
+      expect(result.structured.type).toBe("page");
+      expect(result.structured.children.map((c: { title: string }) => c.title)).toEqual(["Alpha", "Beta"]);
+    });
+  });
+
+  describe("search", () => {
+    it("should return pages and databases matching the query", async () => {
+      session.fake.addPage({ title: "Task notes", parent: rootId });
+
+      const result = await session.call("search", { query: "task" });
+
+      expect(result.isError).toBe(false);
+      const found = result.structured.results.map((r: { title: string; object: string }) => [r.title, r.object]);
+      expect(found).toContainEqual(["Task notes", "page"]);
+      expect(found).toContainEqual(["Tasks", "database"]);
+    });
+
+    it("should filter by object type and honor the limit", async () => {
+      for (let i = 0; i < 5; i++) session.fake.addPage({ title: `Doc ${i}`, parent: rootId });
+
+      const pages = await session.call("search", { query: "doc", filter: "page", limit: 3 });
+      const databases = await session.call("search", { query: "", filter: "database" });
+
+      expect(pages.structured.results).toHaveLength(3);
+      expect(databases.structured.results.map((r: { object: string }) => r.object)).toEqual(["database"]);
+    });
+
+    it("should report when nothing matches", async () => {
+      const result = await session.call("search", { query: "nothing here" });
+
+      expect(result.text).toContain("No results found.");
+      expect(result.structured.results).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { connectFakeServer, type TestSession } from "../helpers/mcp.js";
+
+describe("update / delete / move / comment", () => {
+  let session: TestSession;
+  let rootId: string;
+  let tasks: { databaseId: string; dataSourceId: string };
+
+  beforeEach(async () => {
+    session = await connectFakeServer();
+    const { fake } = session;
+    rootId = fake.addPage({ title: "Projects" });
+    tasks = fake.addDatabase({
+      title: "Tasks",
+      parent: rootId,
+      properties: {
+        Name: "title",
+        Status: { type: "status", options: ["Todo", "In progress", "Done"] },
+        Done: "checkbox",
+      },
+    });
+  });
+
+  afterEach(async () => {
+    await session.close();
+  });
+
+  describe("update", () => {
+    it("should update properties of a row resolved by name", async () => {
+      const rowId = session.fake.addRow(tasks.dataSourceId, { Name: "Ship v1", Status: "Todo" });
+
+      const result = await session.call("update", {
+        page: "Ship v1",
+        properties: { Status: "Done", Done: true },
+      });
+
+      expect(result.isError).toBe(false);
+      expect(result.structured).toEqual({ id: rowId, title: "Ship v1", updated: ["Status", "Done"] });
+      const props = session.fake.pages.get(rowId)!.properties as Record<string, any>;
+      expect(props.Status.status.name).toBe("Done");
+      expect(props.Done.checkbox).toBe(true);
+    });
+
+    it("should ignore properties that are not in the schema", async () => {
+      const rowId = session.fake.addRow(tasks.dataSourceId, { Name: "Ship v1", Status: "Todo" });
+
+      const result = await session.call("update", { page: rowId, properties: { Nope: "x", Status: "Done" } });
+
+      expect(result.isError).toBe(false);
+      const sent = session.fake.requestsTo("PATCH", `pages/${rowId}`)[0].body?.properties;
+      expect(Object.keys(sent as object)).toEqual(["Status"]);
+    });
+
+    it("should refuse updates when the page changed after lastEdited", async () => {
+      const rowId = session.fake.addRow(tasks.dataSourceId, { Name: "Ship v1", Status: "Todo" });
+      const lastEdited = session.fake.pages.get(rowId)!.last_edited_time as string;
+      await session.call("update", { page: rowId, properties: { Done: true } });
+
+      const stale = await session.call("update", { page: rowId, properties: { Status: "Done" }, lastEdited });
+      expect(stale.isError).toBe(true);
+      expect(stale.text).toContain("CONFLICT");
+      expect(session.fake.requestsTo("PATCH", `pages/${rowId}`)).toHaveLength(1);
+
+      const forced = await session.call("update", { page: rowId, properties: { Status: "Done" }, lastEdited, overwrite: true });
+      expect(forced.isError).toBe(false);
+    });
+
+    it("should preview property changes with dryRun", async () => {
+      const rowId = session.fake.addRow(tasks.dataSourceId, { Name: "Ship v1", Status: "Todo" });
+
+      const result = await session.call("update", { page: rowId, properties: { Status: "Done", Missing: 1 }, dryRun: true });
+
+      expect(result.structured).toMatchObject({
+        dryRun: true,
+        changes: [{ name: "Status", before: "Todo", after: "Done" }],
+        skipped: [{ name: "Missing", reason: "no such property in the database" }],
+      });
+      expect(session.fake.requestsTo("PATCH", `pages/${rowId}`)).toHaveLength(0);
+    });
+  });
+
+  describe("delete", () => {
+    it("should archive the page and detach it from its parent", async () => {
+      const pageId = session.fake.addPage({ title: "Old", parent: rootId });
+
+      const result = await session.call("delete", { page: pageId });
+
+      expect(result.isError).toBe(false);
+      expect(result.structured).toMatchObject({ id: pageId, title: "Old", archived: true });
+      expect(session.fake.pages.get(pageId)!.archived).toBe(true);
+      expect(session.fake.childTexts(rootId)).not.toContain("Old");
+    });
+  });
+
+  describe("move", () => {
+    it("should move a page under another page", async () => {
+      const archiveId = session.fake.addPage({ title: "Archive", parent: rootId });
+      const pageId = session.fake.addPage({ title: "Draft", parent: rootId });
+
+      const result = await session.call("move", { page: pageId, to: archiveId });
+
+      expect(result.isError).toBe(false);
+      expect(result.structured).toEqual({
+        id: pageId,
+        title: "Draft",
+        destination: { id: archiveId, type: "page" },
+      });
+      expect(session.fake.childTexts(archiveId)).toEqual(["Draft"]);
+      expect(session.fake.pages.get(pageId)!.parent).toEqual({ type: "page_id", page_id: archiveId });
+    });
+  });
+
+  describe("comment", () => {
+    it("should add a comment and read it back", async () => {
+      const pageId = session.fake.addPage({ title: "Spec", parent: rootId });
+
+      const added = await session.call("comment", { page: pageId, body: "Looks good" });
+      const listed = await session.call("comment", { page: pageId });
+
+      expect(added.isError).toBe(false);
+      expect(added.structured.added.text).toBe("Looks good");
+      expect(listed.text).toContain("# Comments (1)");
+      expect(listed.structured.comments.map((c: { text: string }) => c.text)).toEqual(["Looks good"]);
+    });
+
+    it("should page through more than 100 comments", async () => {
+      const pageId = session.fake.addPage({ title: "Busy", parent: rootId });
+      for (let i = 0; i < 105; i++) session.fake.addComment(pageId, `c${i}`);
+
+      const result = await session.call("comment", { page: pageId });
+
+      expect(result.structured.comments).toHaveLength(105);
+      expect(session.fake.requestsTo("GET", "comments")).toHaveLength(2);
+    });
+  });
+});
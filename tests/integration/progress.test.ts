@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { CallToolRequestSchema, type CallToolResult, type Progress } from "@modelcontextprotocol/sdk/types.js";
+import { LogLevel } from "@notionhq/client";
+import { connectFakeServer, type TestSession } from "../helpers/mcp.js";
+import { setClientOptions } from "../../src/notion/client.js";
+
+/**
+ * キャンセルしたリクエストの結果はクライアントに届かないので、サーバー側で tools/call の結果を横取りする
+ */
+function captureToolResults(): Array<Promise<CallToolResult>> {
+  const results: Array<Promise<CallToolResult>> = [];
+  const setRequestHandler = Server.prototype.setRequestHandler;
+  vi.spyOn(Server.prototype, "setRequestHandler").mockImplementation(function (this: Server, schema, handler) {
+    const wrapped =
+      schema === CallToolRequestSchema
+        ? (request: never, extra: never) => {
+            const result = Promise.resolve(handler(request, extra)) as Promise<CallToolResult>;
+            results.push(result);
+            return result;
+          }
+        : handler;
+    return setRequestHandler.call(this, schema, wrapped as typeof handler);
+  });
+  return results;
+}
+
+describe("progress and cancellation", () => {
+  let session: TestSession;
+  let results: Array<Promise<CallToolResult>>;
+  let rootId: string;
+  let dataSourceId: string;
+
+  beforeEach(async () => {
+    results = captureToolResults();
+    session = await connectFakeServer();
+    rootId = session.fake.addPage({ title: "Projects" });
+    ({ dataSourceId } = session.fake.addDatabase({ title: "Tasks", parent: rootId, properties: { Name: "title" } }));
+    for (let i = 1; i <= 150; i++) session.fake.addRow(dataSourceId, { Name: `Task ${i}` });
+  });
+
+  afterEach(async () => {
+    await session.close();
+    vi.restoreAllMocks();
+  });
+
+  /** Notion API への count 回目の呼び出しが返った時点で controller を中断する */
+  const abortAfter = (controller: AbortController, count: number, method: string, path: string | RegExp) => {
+    setClientOptions({
+      logLevel: LogLevel.ERROR,
+      fetch: async (url: string, init?: Parameters<typeof session.fake.fetch>[1]) => {
+        const response = await session.fake.fetch(url, init);
+        if (!controller.signal.aborted && session.fake.requestsTo(method, path).length >= count) {
+          controller.abort();
+          // キャンセル通知がサーバーに届いてから次の処理に進ませる
+          await new Promise((resolve) => setTimeout(resolve, 10));
+        }
+        return response;
+      },
+    });
+  };
+
+  it("should send progress notifications when the client passes a progress token", async () => {
+    const progress: Progress[] = [];
+    const onprogress = (p: Progress) => progress.push(p);
+
+    await session.client.callTool({ name: "list", arguments: { target: "Tasks", limit: 150 } }, undefined, { onprogress });
+    await session.client.callTool(
+      {
+        name: "write",
+        arguments: { markdown: [`---\ntitle: A\nparent: ${rootId}\n---\n`, `---\ntitle: B\nparent: ${rootId}\n---\n`].join("\n===\n") },
+      },
+      undefined,
+      { onprogress }
+    );
+
+    expect(progress.map((p) => p.message)).toEqual([
+      "Fetched 100 records",
+      "Processed 1/2 documents",
+      "Processed 2/2 documents",
+    ]);
+    expect(progress.map((p) => p.progress)).toEqual([1, 1, 2]);
+  });
+
+  it("should stop a batch between documents when cancelled", async () => {
+    const controller = new AbortController();
+    abortAfter(controller, 1, "POST", "pages");
+    const documents = Array.from({ length: 6 }, (_, i) => `---\ntitle: Doc ${i + 1}\nparent: ${rootId}\n---\n`);
+
+    const call = session.client.callTool(
+      { name: "write", arguments: { markdown: documents.join("\n===\n") } },
+      undefined,
+      { signal: controller.signal }
+    );
+
+    await expect(call).rejects.toThrow();
+    const result = await results[0];
+    const statuses = (result.structuredContent as { results: Array<{ status: string }> }).results.map((r) => r.status);
+    expect(statuses).toContain("cancelled");
+    expect(session.fake.requestsTo("POST", "pages")).toHaveLength(statuses.filter((s) => s === "created").length);
+    expect((result.content as Array<{ text: string }>)[0].text).toContain("CANCELLED");
+  });
+
+  it("should stop paging through a database when cancelled", async () => {
+    const controller = new AbortController();
+    const query = `data_sources/${dataSourceId}/query`;
+    abortAfter(controller, 1, "POST", query);
+
+    const call = session.client.callTool(
+      { name: "list", arguments: { target: "Tasks", limit: 150 } },
+      undefined,
+      { signal: controller.signal }
+    );
+
+    await expect(call).rejects.toThrow();
+    const result = await results[0];
+    expect(result.isError).toBe(true);
+    expect((result.content as Array<{ text: string }>)[0].text).toContain(
+      "Error [CANCELLED]: Operation cancelled. Completed before cancellation: fetched 100 records."
+    );
+    expect(session.fake.requestsTo("POST", query)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { connectFakeServer, type TestSession } from "../helpers/mcp.js";
+
+describe("prompts", () => {
+  let session: TestSession;
+
+  beforeEach(async () => {
+    session = await connectFakeServer();
+  });
+
+  afterEach(async () => {
+    await session.close();
+  });
+
+  const promptText = async (name: string, args: Record<string, string>) => {
+    const { messages } = await session.client.getPrompt({ name, arguments: args });
+    expect(messages).toHaveLength(1);
+    expect(messages[0].role).toBe("user");
+    return (messages[0].content as { text: string }).text;
+  };
+
+  it("should build a weekly review for the given database, week and parent", async () => {
+    const withParent = await promptText("weekly-review", { database: "Task Board", parent: "Reviews", week: "2026-W08" });
+    const withoutParent = await promptText("weekly-review", { database: "Task Board" });
+
+    expect(withParent).toContain('Write a weekly review for the Notion database "Task Board" covering the week of 2026-W08.');
+    expect(withParent).toContain('schema({ database: "Task Board" })');
+    expect(withParent).toContain('Create the review as a child page of "Reviews".');
+    expect(withParent).toContain('title: Weekly Review 2026-W08\nparent: "Reviews"');
+    expect(withoutParent).toContain("covering the current week.");
+    expect(withoutParent).toContain("Ask me which page the review should be created under");
+    expect(withoutParent).toContain('parent: "<parent page>"');
+  });
+
+  it("should write meeting notes to a database, a parent page or ask where", async () => {
+    const inDatabase = await promptText("meeting-notes", { transcript: "Alice: ship Friday", database: "Meetings" });
+    const underParent = await promptText("meeting-notes", { transcript: "Bob: agreed", parent: "Team" });
+    const unset = await promptText("meeting-notes", { transcript: "Carol: hi" });
+
+    expect(inDatabase).toContain('Call schema({ database: "Meetings" }) first');
+    expect(inDatabase).toContain('database: "Meetings"');
+    expect(inDatabase).toContain('"""\nAlice: ship Friday\n"""');
+    expect(underParent).toContain("only title and icon are needed");
+    expect(underParent).toContain('parent: "Team"');
+    expect(underParent).not.toContain("schema(");
+    expect(unset).toContain("Ask me which page the notes should be created under");
+    expect(unset).toContain('parent: "<parent page>"');
+  });
+
+  it("should triage the given database with or without a filter", async () => {
+    const filtered = await promptText("triage-database", { database: "Inbox", filter: "Status is Inbox" });
+    const unfiltered = await promptText("triage-database", { database: "Inbox" });
+
+    expect(filtered).toContain('Triage the Notion database "Inbox".');
+    expect(filtered).toContain('schema({ database: "Inbox" })');
+    expect(filtered).toContain('Call list({ target: "Inbox", filter: "Status is Inbox" }).');
+    expect(unfiltered).toContain('Call list({ target: "Inbox" }) and pick the records whose status or priority is empty.');
+  });
+});
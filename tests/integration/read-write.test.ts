@@ -0,0 +1,708 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { connectFakeServer, type TestSession } from "../helpers/mcp.js";
+
+const paragraph = (text: string) => ({ paragraph: { rich_text: [{ text: { content: text } }] } });
+
+describe("read / write", () => {
+  let session: TestSession;
+  let rootId: string;
+  let tasks: { databaseId: string; dataSourceId: string };
+
+  beforeEach(async () => {
+    session = await connectFakeServer();
+    const { fake } = session;
+    rootId = fake.addPage({ title: "Projects", icon: "📁" });
+    tasks = fake.addDatabase({
+      title: "Tasks",
+      parent: rootId,
+      properties: {
+        Name: "title",
+        Status: { type: "select", options: ["Todo", "Done"] },
+        Tags: { type: "multi_select", options: ["backend", "urgent"] },
+        Due: "date",
+      },
+    });
+  });
+
+  afterEach(async () => {
+    await session.close();
+  });
+
+  describe("read", () => {
+    it("should return frontmatter, body and structured page", async () => {
+      const pageId = session.fake.addPage({
+        title: "Meeting Notes",
+        parent: rootId,
+        children: [
+          { heading_2: { rich_text: [{ text: { content: "Agenda" } }] } },
+          { bulleted_list_item: { rich_text: [{ text: { content: "Review progress" } }] } },
+        ],
+      });
+
+      const result = await session.call("read", { page: pageId });
+
+      expect(result.isError).toBe(false);
+      expect(result.text).toContain("title: Meeting Notes");
+      expect(result.text).toContain(`parent: ${rootId}`);
+      expect(result.text).toContain("## Agenda");
+      expect(result.text).toContain("- Review progress");
+      expect(result.structured.pages).toHaveLength(1);
+      expect(result.structured.pages[0]).toMatchObject({ id: pageId, title: "Meeting Notes", depth: 0 });
+    });
+
+    it("should read database properties", async () => {
+      const rowId = session.fake.addRow(tasks.dataSourceId, {
+        Name: "Fix login",
+        Status: "Todo",
+        Tags: ["backend"],
+        Due: "2026-03-01",
+      });
+
+      const result = await session.call("read", { page: rowId });
+
+      expect(result.text).toContain("title: Fix login");
+      expect(result.text).toContain("Status: Todo");
+      expect(result.text).toContain("- backend");
+      expect(result.text).toContain("Due: '2026-03-01'");
+    });
+
+    it("should read child pages with depth", async () => {
+      const childId = session.fake.addPage({ title: "Alpha", parent: rootId });
+      session.fake.addPage({ title: "Beta", parent: childId });
+
+      const result = await session.call("read", { page: rootId, depth: 3 });
+
+      expect(result.structured.pages.map((p: { title: string; depth: number }) => [p.title, p.depth])).toEqual([
+        ["Projects", 0],
+        ["Alpha", 1],
+        ["Beta", 2],
+      ]);
+    });
+
+    it("should read bodies longer than one page of block children", async () => {
+      const pageId = session.fake.addPage({ title: "Long", parent: rootId });
+      session.fake.addBlocks(
+        pageId,
+        Array.from({ length: 130 }, (_, i) => paragraph(`Line ${i + 1}`))
+      );
+
+      const result = await session.call("read", { page: pageId });
+
+      expect(result.text).toContain("Line 1\n");
+      expect(result.text).toContain("Line 130");
+      expect(session.fake.requestsTo("GET", `blocks/${pageId}/children`)).toHaveLength(2);
+    });
+  });
+
+  describe("write", () => {
+    it("should create a page under a parent resolved by name", async () => {
+      const result = await session.call("write", {
+        markdown: "---\ntitle: Kickoff\nparent: Projects\nicon: \"📝\"\n---\n## Agenda\n- Intro\n",
+      });
+
+      expect(result.isError).toBe(false);
+      const created = result.structured.results[0];
+      expect(created).toMatchObject({ index: 1, status: "created", title: "Kickoff" });
+      expect(session.fake.titleOf(created.id)).toBe("Kickoff");
+      expect(session.fake.childTexts(created.id)).toEqual(["Agenda", "Intro"]);
+      expect(session.fake.childTexts(rootId)).toContain("Kickoff");
+    });
+
+    it("should create a database row with schema-matched properties", async () => {
+      const result = await session.call("write", {
+        markdown: `---\ntitle: Fix login bug\ndatabase: ${tasks.databaseId}\nproperties:\n  Status: Todo\n  Tags:\n    - backend\n    - urgent\n  Due: "2026-03-01"\n---\nDetails\n`,
+      });
+
+      expect(result.isError).toBe(false);
+      const row = session.fake.pages.get(result.structured.results[0].id)!;
+      expect(row.parent).toMatchObject({ type: "data_source_id", data_source_id: tasks.dataSourceId });
+      const props = row.properties as Record<string, any>;
+      expect(props.Status.select.name).toBe("Todo");
+      expect(props.Tags.multi_select.map((t: { name: string }) => t.name)).toEqual(["backend", "urgent"]);
+      expect(props.Due.date.start).toBe("2026-03-01");
+    });
+
+    it("should replace the body of an existing page", async () => {
+      const pageId = session.fake.addPage({ title: "Notes", parent: rootId, children: [paragraph("old 1"), paragraph("old 2")] });
+
+      const result = await session.call("write", {
+        markdown: `---\nid: ${pageId}\ntitle: Notes v2\n---\nnew body\n`,
+      });
+
+      expect(result.structured.results[0].status).toBe("updated");
+      expect(session.fake.titleOf(pageId)).toBe("Notes v2");
+      expect(session.fake.childTexts(pageId)).toEqual(["new body"]);
+    });
+
+    it("should leave unchanged blocks alone when writing back what was read", async () => {
+      const created = await session.call("write", {
+        markdown: `---\ntitle: Spec\nparent: ${rootId}\n---\n## Goals\n\n- **Fast** [docs](https://example.com)\n  - nested\n\n| a | b |\n|---|---|\n| 1 | 2 |\n`,
+      });
+      const pageId = created.structured.results[0].id;
+      const before = session.fake.children(pageId).map((b) => b.id);
+      const read = await session.call("read", { page: pageId });
+
+      const result = await session.call("write", { markdown: read.text });
+
+      expect(result.structured.results[0].changes).toEqual({ unchanged: 6, updated: 0, inserted: 0, deleted: 0 });
+      expect(session.fake.children(pageId).map((b) => b.id)).toEqual(before);
+      expect(session.fake.requestsTo("DELETE", /^blocks\//)).toHaveLength(0);
+    });
+
+    it("should update, insert and delete only the blocks that changed", async () => {
+      const pageId = session.fake.addPage({
+        title: "Notes",
+        parent: rootId,
+        children: [paragraph("keep 1"), paragraph("edit me"), paragraph("keep 2"), { divider: {} }, paragraph("keep 3")],
+      });
+      const [keep1, edited, keep2, , keep3] = session.fake.children(pageId).map((b) => b.id);
+
+      const result = await session.call("write", {
+        markdown: `---\nid: ${pageId}\n---\nkeep 1\n\nedited\n\nkeep 2\n\n## Added\n\nkeep 3\n`,
+      });
+
+      expect(result.structured.results[0].changes).toEqual({ unchanged: 3, updated: 1, inserted: 1, deleted: 1 });
+      expect(result.text).toContain("Blocks: 1 updated, 1 inserted, 1 deleted, 3 unchanged");
+      expect(session.fake.childTexts(pageId)).toEqual(["keep 1", "edited", "keep 2", "Added", "keep 3"]);
+      const ids = session.fake.children(pageId).map((b) => b.id);
+      expect([ids[0], ids[1], ids[2], ids[4]]).toEqual([keep1, edited, keep2, keep3]);
+    });
+
+    it("should keep child pages and inline databases written back as placeholders", async () => {
+      const pageId = session.fake.addPage({ title: "Hub", parent: rootId, children: [paragraph("intro")] });
+      const subId = session.fake.addPage({ title: "Sub", parent: pageId });
+      session.fake.addDatabase({ title: "Inline", parent: pageId, properties: { Name: "title" } });
+      session.fake.addBlocks(pageId, [paragraph("outro")]);
+
+      const read = await session.call("read", { page: pageId });
+      expect(read.text).toContain("[Unsupported: child_page]");
+      expect(read.text).toContain("[Unsupported: child_database]");
+
+      const result = await session.call("write", { markdown: read.text.replace("intro", "new intro") });
+
+      expect(result.isError).toBe(false);
+      expect(result.structured.results[0].changes).toEqual({ unchanged: 3, updated: 1, inserted: 0, deleted: 0 });
+      expect(session.fake.childTexts(pageId)).toEqual(["new intro", "Sub", "Inline", "outro"]);
+      expect(session.fake.pages.get(subId)!.archived).toBe(false);
+    });
+
+    it("should keep columns written back as a placeholder and count deleted children", async () => {
+      const pageId = session.fake.addPage({
+        title: "Board",
+        parent: rootId,
+        children: [
+          paragraph("intro"),
+          {
+            column_list: {
+              children: [
+                { column: { children: [paragraph("left")] } },
+                { column: { children: [paragraph("right")] } },
+              ],
+            },
+          },
+          { toggle: { rich_text: [{ text: { content: "Old" } }], children: [paragraph("a"), paragraph("b")] } },
+        ],
+      });
+      const columnsId = session.fake.children(pageId)[1].id;
+
+      const read = await session.call("read", { page: pageId });
+      expect(read.text).toContain("[Unsupported: column_list]");
+      expect(read.text).not.toContain("left");
+
+      const result = await session.call("write", {
+        markdown: read.text.replace("intro", "new intro").replace(/<details>[\s\S]*$/, ""),
+      });
+
+      expect(result.isError).toBe(false);
+      expect(result.structured.results[0].changes).toEqual({ unchanged: 1, updated: 1, inserted: 0, deleted: 3 });
+      expect(session.fake.children(pageId).map((b) => b.id)).toContain(columnsId);
+    });
+
+    it("should refuse to delete unsupported blocks unless forced", async () => {
+      const pageId = session.fake.addPage({ title: "Hub", parent: rootId, children: [paragraph("intro")] });
+      const subId = session.fake.addPage({ title: "Sub", parent: pageId });
+
+      const refused = await session.call("write", { markdown: `---\nid: ${pageId}\ntitle: Hub v2\n---\nonly this\n` });
+
+      expect(refused.isError).toBe(true);
+      expect(refused.text).toContain("UNSUPPORTED_BLOCKS");
+      expect(refused.text).toContain(`child_page "Sub" (${subId})`);
+      expect(session.fake.titleOf(pageId)).toBe("Hub");
+      expect(session.fake.childTexts(pageId)).toEqual(["intro", "Sub"]);
+
+      const forced = await session.call("write", { markdown: `---\nid: ${pageId}\n---\nonly this\n`, force: true });
+
+      expect(forced.isError).toBe(false);
+      expect(session.fake.childTexts(pageId)).toEqual(["only this"]);
+      expect(session.fake.pages.get(subId)!.archived).toBe(true);
+    });
+
+    it("should refuse to overwrite edits made after the page was read", async () => {
+      const pageId = session.fake.addPage({ title: "Plan", parent: rootId, children: [paragraph("draft")] });
+      const read = await session.call("read", { page: pageId });
+      await session.call("write", { markdown: `---\nid: ${pageId}\n---\nteammate note\n`, position: "append" });
+
+      const stale = await session.call("write", { markdown: read.text.replace("draft", "final") });
+
+      expect(stale.isError).toBe(true);
+      expect(stale.text).toContain("CONFLICT");
+      expect(stale.text).toContain('paragraph "teammate note"');
+      expect(session.fake.childTexts(pageId)).toEqual(["draft", "teammate note"]);
+
+      const forced = await session.call("write", { markdown: read.text.replace("draft", "final"), overwrite: true });
+
+      expect(forced.isError).toBe(false);
+      expect(session.fake.childTexts(pageId)).toEqual(["final"]);
+    });
+
+    it("should read unquoted last_edited timestamps", async () => {
+      const pageId = session.fake.addPage({ title: "Plan", parent: rootId });
+
+      const result = await session.call("write", {
+        markdown: `---\nid: ${pageId}\nlast_edited: 2020-01-01T00:00:00.000Z\n---\nbody\n`,
+      });
+
+      expect(result.text).toContain("CONFLICT");
+      expect(result.text).toContain("last_edited: 2020-01-01T00:00:00.000Z");
+    });
+
+    it("should diff nested children of unchanged blocks", async () => {
+      const pageId = session.fake.addPage({ title: "List", parent: rootId });
+      await session.call("write", { markdown: `---\nid: ${pageId}\n---\n- parent\n  - child 1\n  - child 2\n` });
+      const [parentId] = session.fake.children(pageId).map((b) => b.id);
+      const [child1] = session.fake.children(parentId).map((b) => b.id);
+
+      const result = await session.call("write", { markdown: `---\nid: ${pageId}\n---\n- parent\n  - child 1\n  - child 3\n` });
+
+      expect(result.structured.results[0].changes).toEqual({ unchanged: 2, updated: 1, inserted: 0, deleted: 0 });
+      expect(session.fake.children(pageId)[0].id).toBe(parentId);
+      expect(session.fake.children(parentId)[0].id).toBe(child1);
+      expect(session.fake.childTexts(parentId)).toEqual(["child 1", "child 3"]);
+    });
+
+    it("should append and prepend without losing existing content", async () => {
+      const pageId = session.fake.addPage({ title: "Log", parent: rootId, children: [paragraph("middle")] });
+
+      await session.call("write", { markdown: `---\nid: ${pageId}\n---\nlast\n`, position: "append" });
+      await session.call("write", { markdown: `---\nid: ${pageId}\n---\nfirst\n`, position: "prepend" });
+
+      expect(session.fake.childTexts(pageId)).toEqual(["first", "middle", "last"]);
+    });
+
+    it("should prepend without touching existing blocks", async () => {
+      const pageId = session.fake.addPage({
+        title: "Log",
+        parent: rootId,
+        children: [{ table: { table_width: 1, has_column_header: false, children: [] } }, paragraph("old")],
+      });
+      const childId = session.fake.addPage({ title: "Sub page", parent: pageId });
+      const before = session.fake.children(pageId).map((b) => b.id);
+
+      const body = Array.from({ length: 120 }, (_, i) => `New ${i + 1}`).join("\n\n");
+      await session.call("write", { markdown: `---\nid: ${pageId}\n---\n${body}\n`, position: "prepend" });
+
+      const after = session.fake.children(pageId);
+      expect(session.fake.requestsTo("DELETE", /^blocks\//)).toHaveLength(0);
+      expect(after.slice(120).map((b) => b.id)).toEqual(before);
+      expect(after.slice(120).map((b) => b.type)).toEqual(["table", "paragraph", "child_page"]);
+      expect(session.fake.childTexts(pageId).slice(0, 3)).toEqual(["New 1", "New 2", "New 3"]);
+      expect(session.fake.childTexts(pageId)[119]).toBe("New 120");
+      expect(session.fake.pages.get(childId)!.archived).toBe(false);
+    });
+
+    it("should insert after a heading or block", async () => {
+      const heading = (text: string) => ({ heading_2: { rich_text: [{ text: { content: text } }] } });
+      const pageId = session.fake.addPage({
+        title: "Doc",
+        parent: rootId,
+        children: [heading("Notes"), paragraph("a"), heading("Next"), paragraph("b")],
+      });
+      const [, aId] = session.fake.children(pageId).map((b) => b.id as string);
+
+      const byHeading = await session.call("write", {
+        markdown: `---\nid: ${pageId}\n---\nunder notes\n`,
+        position: { after: "## notes" },
+      });
+      await session.call("write", { markdown: `---\nid: ${pageId}\n---\nafter a\n`, position: { after: aId } });
+
+      expect(byHeading.structured.results[0].status).toBe("inserted");
+      expect(session.fake.childTexts(pageId)).toEqual(["Notes", "under notes", "a", "after a", "Next", "b"]);
+    });
+
+    it("should list the headings when the anchor is missing", async () => {
+      const pageId = session.fake.addPage({
+        title: "Doc",
+        parent: rootId,
+        children: [{ heading_1: { rich_text: [{ text: { content: "Intro" } }] } }],
+      });
+
+      const result = await session.call("write", {
+        markdown: `---\nid: ${pageId}\n---\nx\n`,
+        position: { after: "Summary" },
+      });
+
+      expect(result.isError).toBe(true);
+      expect(result.text).toContain('Error [NOT_FOUND]: Heading "Summary" not found. Headings on this page: "Intro"');
+    });
+
+    it("should replace, append to and delete a single section", async () => {
+      const heading = (level: 1 | 2 | 3, text: string) =>
+        ({ [`heading_${level}`]: { rich_text: [{ text: { content: text } }] } }) as Record<string, unknown>;
+      const pageId = session.fake.addPage({
+        title: "Doc",
+        parent: rootId,
+        children: [
+          heading(1, "Meeting"),
+          paragraph("intro"),
+          heading(2, "Action Items"),
+          paragraph("old 1"),
+          heading(3, "Later"),
+          paragraph("old 2"),
+          heading(2, "Notes"),
+          paragraph("keep"),
+        ],
+      });
+      const write = (markdown: string, extra: Record<string, unknown>) =>
+        session.call("write", { markdown: `---\nid: ${pageId}\n---\n${markdown}`, section: "Action Items", ...extra });
+
+      const replaced = await write("## Action Items\n\nnew 1\n", { position: "replace" });
+      expect(replaced.structured.results[0]).toMatchObject({ status: "updated", section: "Action Items" });
+      expect(session.fake.childTexts(pageId)).toEqual(["Meeting", "intro", "Action Items", "new 1", "Notes", "keep"]);
+
+      await write("new 2\n", { position: "append" });
+      await write("new 0\n", { position: "prepend" });
+      expect(session.fake.childTexts(pageId)).toEqual(["Meeting", "intro", "Action Items", "new 0", "new 1", "new 2", "Notes", "keep"]);
+
+      const deleted = await write("", { position: "delete" });
+      expect(deleted.text).toContain('Updated: section "Action Items" of');
+      expect(session.fake.childTexts(pageId)).toEqual(["Meeting", "intro", "Action Items", "Notes", "keep"]);
+    });
+
+    it("should require a section to delete", async () => {
+      const pageId = session.fake.addPage({ title: "Doc", parent: rootId, children: [paragraph("a")] });
+
+      const result = await session.call("write", { markdown: `---\nid: ${pageId}\n---\n`, position: "delete" });
+
+      expect(result.text).toContain('Error [INVALID_POSITION]: position "delete" requires a section.');
+      expect(session.fake.childTexts(pageId)).toEqual(["a"]);
+    });
+
+    it("should preview an update without writing anything", async () => {
+      const rowId = session.fake.addRow(tasks.dataSourceId, { Name: "Ship v1", Status: "Todo" });
+      session.fake.addBlocks(rowId, [paragraph("a"), paragraph("b")]);
+      const requests = session.fake.requests.length;
+
+      const result = await session.call("write", {
+        markdown: `---\nid: ${rowId}\ntitle: Ship v1\nproperties:\n  Status: Done\n  Owner: me\n---\na\n\nb2\n\nc\n`,
+        dryRun: true,
+      });
+
+      expect(result.isError).toBe(false);
+      expect(result.structured.results[0]).toMatchObject({
+        status: "updated",
+        dryRun: true,
+        changes: { unchanged: 1, updated: 1, inserted: 1, deleted: 0 },
+        preview: {
+          properties: [{ name: "Status", before: "Todo", after: "Done" }],
+          skipped: [{ name: "Owner", reason: "no such property in the database" }],
+          blocks: ['~ paragraph "b" → "b2"', '+ paragraph "c"'],
+        },
+      });
+      expect(result.text).toContain("Dry run (nothing was written): would update");
+      const mutations = session.fake.requests.slice(requests).filter((r) => r.method !== "GET" && !/query|search/.test(r.path));
+      expect(mutations).toEqual([]);
+      expect(session.fake.childTexts(rowId)).toEqual(["a", "b"]);
+    });
+
+    it("should preview a new page without creating it", async () => {
+      const result = await session.call("write", {
+        markdown: `---\ntitle: Draft\nparent: ${rootId}\nproperties:\n  Status: Todo\n---\n## Agenda\n`,
+        dryRun: true,
+      });
+
+      expect(result.structured.results[0]).toMatchObject({
+        status: "created",
+        dryRun: true,
+        preview: {
+          properties: [{ name: "title", before: null, after: "Draft" }],
+          skipped: [{ name: "Status", reason: "not a database page; only the title can be set" }],
+          blocks: ['+ heading_2 "Agenda"'],
+        },
+      });
+      expect(session.fake.requestsTo("POST", "pages")).toHaveLength(0);
+    });
+
+    it("should split bodies over 100 blocks into several append requests", async () => {
+      const pageId = session.fake.addPage({ title: "Big", parent: rootId });
+      const body = Array.from({ length: 150 }, (_, i) => `Paragraph ${i + 1}`).join("\n\n");
+
+      const result = await session.call("write", { markdown: `---\nid: ${pageId}\n---\n${body}\n`, position: "append" });
+
+      expect(result.isError).toBe(false);
+      expect(session.fake.requestsTo("PATCH", `blocks/${pageId}/children`)).toHaveLength(2);
+      expect(session.fake.childTexts(pageId)).toHaveLength(150);
+      expect(session.fake.childTexts(pageId)[149]).toBe("Paragraph 150");
+    });
+
+    it("should write batch documents for the same page in order", async () => {
+      const pageId = session.fake.addPage({ title: "Log", parent: rootId });
+      const body = Array.from({ length: 150 }, (_, i) => `Entry ${i + 1}`).join("\n\n");
+
+      const result = await session.call("write", {
+        markdown: [`---\nid: ${pageId}\n---\n${body}\n`, `---\nid: ${pageId.replace(/-/g, "")}\n---\nLast entry\n`].join("\n===\n"),
+        position: "append",
+      });
+
+      expect(result.isError).toBe(false);
+      const texts = session.fake.childTexts(pageId);
+      expect(texts).toHaveLength(151);
+      expect(texts.slice(-2)).toEqual(["Entry 150", "Last entry"]);
+    });
+
+    it("should create deeply nested lists level by level", async () => {
+      const list = ["- L1", "  - L2", "    - L3", "      - L4", "        - L5", "- Second"].join("\n");
+
+      const result = await session.call("write", { markdown: `---\ntitle: Nested\nparent: ${rootId}\n---\n${list}\n` });
+
+      const pageId = result.structured.results[0].id;
+      expect(session.fake.childTexts(pageId)).toEqual(["L1", "Second"]);
+      let parentId = session.fake.children(pageId)[0].id as string;
+      for (const text of ["L2", "L3", "L4", "L5"]) {
+        expect(session.fake.childTexts(parentId)).toEqual([text]);
+        parentId = session.fake.children(parentId)[0].id as string;
+      }
+    });
+
+    it("should append tables with more than 100 rows", async () => {
+      const pageId = session.fake.addPage({ title: "Data", parent: rootId });
+      const rows = Array.from({ length: 150 }, (_, i) => `| row ${i + 1} | ${i + 1} |`);
+      const table = ["| Name | Value |", "| --- | --- |", ...rows].join("\n");
+
+      const result = await session.call("write", {
+        markdown: `---\nid: ${pageId}\n---\nBefore\n\n${table}\n\nAfter\n`,
+        position: "append",
+      });
+
+      expect(result.isError).toBe(false);
+      const [, tableBlock] = session.fake.children(pageId);
+      expect(session.fake.childTexts(pageId)).toEqual(["Before", "", "After"]);
+      const tableRows = session.fake.children(tableBlock.id as string);
+      expect(tableRows).toHaveLength(151);
+      expect((tableRows[150].table_row as { cells: Array<Array<{ plain_text: string }>> }).cells[0][0].plain_text).toBe("row 150");
+    });
+
+    it("should process batch writes and report per-document results", async () => {
+      const markdown = [
+        `---\ntitle: Task 1\ndatabase: ${tasks.databaseId}\nproperties:\n  Status: Todo\n---\nOne`,
+        "---\ntitle: Orphan\n---\nNo parent",
+        `---\ntitle: Task 3\ndatabase: ${tasks.databaseId}\n---\nThree`,
+      ].join("\n===\n");
+
+      const result = await session.call("write", { markdown });
+
+      expect(result.isError).toBe(true);
+      expect(result.text).toContain("Batch complete: 2/3 succeeded.");
+      expect(result.structured).toMatchObject({ total: 3, succeeded: 2, failed: 1 });
+      expect(result.structured.results.map((r: { status: string }) => r.status)).toEqual(["created", "error", "created"]);
+      expect(result.structured.results[1].error).toContain("MISSING_PARENT");
+    });
+
+    it("should write batches concurrently, keep the order and fetch each schema once", async () => {
+      const markdown = Array.from(
+        { length: 7 },
+        (_, i) => `---\ntitle: Row ${i + 1}\ndatabase: Tasks\nproperties:\n  Status: Todo\n---\n`
+      ).join("\n===\n");
+
+      const result = await session.call("write", { markdown });
+
+      expect(result.isError).toBe(false);
+      expect(result.structured.results.map((r: { index: number; title: string }) => [r.index, r.title])).toEqual(
+        Array.from({ length: 7 }, (_, i) => [i + 1, `Row ${i + 1}`])
+      );
+      expect(result.text).toMatch(/1\. Created: "Row 1"[\s\S]*7\. Created: "Row 7"/);
+      expect(session.fake.requestsTo("POST", "search")).toHaveLength(1);
+      expect(session.fake.requestsTo("GET", `data_sources/${tasks.dataSourceId}`)).toHaveLength(1);
+    });
+
+    it("should write nothing when a document of an atomic batch is invalid", async () => {
+      const result = await session.call("write", {
+        markdown: `---\ntitle: One\nparent: ${rootId}\n---\nok\n===\n---\ntitle: Two\nparent: Nowhere\n---\nfails\n`,
+        atomic: true,
+      });
+
+      expect(result.isError).toBe(true);
+      expect(result.text).toContain("Atomic batch: nothing was written because 1/2 documents failed validation.");
+      expect(result.structured.results.map((r: { status: string }) => r.status)).toEqual(["skipped", "error"]);
+      expect(session.fake.requestsTo("POST", "pages")).toHaveLength(0);
+    });
+
+    it("should roll back an atomic batch when a write fails midway", async () => {
+      const rowId = session.fake.addRow(tasks.dataSourceId, { Name: "Ship v1", Status: "Todo" });
+      session.fake.addBlocks(rowId, [paragraph("a"), paragraph("b")]);
+      const lockedId = session.fake.addPage({ title: "Locked", parent: rootId });
+      session.fake.failNext("PATCH", `pages/${lockedId}`, 400, "validation_error");
+
+      const result = await session.call("write", {
+        markdown: [
+          `---\ntitle: New\nparent: ${rootId}\n---\nnew\n`,
+          `---\nid: ${rowId}\nproperties:\n  Status: Done\n---\na\n\nb2\n\nc\n`,
+          `---\nid: ${lockedId}\ntitle: Unlocked\n---\n`,
+        ].join("\n===\n"),
+        atomic: true,
+      });
+
+      expect(result.isError).toBe(true);
+      expect(result.text).toContain("Atomic batch failed at document 3/3 and was rolled back (1 created page(s) archived, 2 updated page(s) restored).");
+      const [created, updated, failed] = result.structured.results;
+      expect([created.status, updated.status, failed.status]).toEqual(["rolled_back", "rolled_back", "error"]);
+      expect(session.fake.pages.get(created.id)!.archived).toBe(true);
+      expect((session.fake.pages.get(rowId)!.properties as Record<string, any>).Status.select.name).toBe("Todo");
+      expect(session.fake.childTexts(rowId)).toEqual(["a", "b"]);
+    });
+
+    it("should upsert rows by a key property", async () => {
+      const issues = session.fake.addDatabase({
+        title: "Issues",
+        parent: rootId,
+        properties: { Name: "title", "External ID": "rich_text", Status: { type: "select", options: ["Todo", "Done"] } },
+      });
+      const doc = (status: string) =>
+        `---\ndatabase: Issues\ntitle: Login fails\nproperties:\n  External ID: GH-42\n  Status: ${status}\n---\nbody\n`;
+
+      const created = await session.call("write", { markdown: doc("Todo"), match: { property: "External ID" } });
+      const updated = await session.call("write", { markdown: doc("Done"), match: { property: "External ID" } });
+
+      expect(created.structured.results[0].status).toBe("created");
+      expect(updated.structured.results[0]).toMatchObject({ status: "updated", id: created.structured.results[0].id });
+      const rows = [...session.fake.pages.values()].filter(
+        (p) => (p.parent as { data_source_id?: string }).data_source_id === issues.dataSourceId
+      );
+      expect(rows).toHaveLength(1);
+      expect((rows[0].properties as Record<string, any>).Status.select.name).toBe("Done");
+    });
+
+    it("should write batch documents with the same key one after another", async () => {
+      const issues = session.fake.addDatabase({
+        title: "Issues",
+        parent: rootId,
+        properties: { Name: "title", "External ID": "rich_text", Number: "unique_id", Points: "number" },
+      });
+      const doc = (title: string) => `---\ndatabase: Issues\ntitle: ${title}\nproperties:\n  External ID: GH-1\n---\n`;
+
+      const result = await session.call("write", {
+        markdown: [doc("First"), doc("Second"), doc("Third")].join("\n===\n"),
+        match: { property: "External ID" },
+      });
+      const badId = await session.call("write", {
+        markdown: "---\ndatabase: Issues\ntitle: X\nproperties:\n  Number: abc\n---\n",
+        match: { property: "Number" },
+      });
+
+      expect(result.structured.results.map((r: { status: string }) => r.status)).toEqual(["created", "updated", "updated"]);
+      const rows = [...session.fake.pages.values()].filter(
+        (p) => (p.parent as { data_source_id?: string }).data_source_id === issues.dataSourceId
+      );
+      expect(rows).toHaveLength(1);
+      expect(badId.isError).toBe(true);
+      expect(badId.text).toContain('Number = "abc" is not an ID');
+
+      const badNumber = await session.call("write", {
+        markdown: "---\ndatabase: Issues\ntitle: X\nproperties:\n  Points: many\n---\n",
+        match: { property: "Points" },
+      });
+      expect(badNumber.isError).toBe(true);
+      expect(badNumber.text).toContain('Points = "many" is not a number');
+      expect(badNumber.text).toContain("INVALID_KEY");
+    });
+
+    it("should refuse to upsert when several rows share the key", async () => {
+      const first = session.fake.addRow(tasks.dataSourceId, { Name: "Ship v1", Status: "Todo" });
+      const second = session.fake.addRow(tasks.dataSourceId, { Name: "Ship v1", Status: "Done" });
+
+      const result = await session.call("write", {
+        markdown: "---\ndatabase: Tasks\nkey: Name\ntitle: Ship v1\n---\nbody\n",
+      });
+
+      expect(result.isError).toBe(true);
+      expect(result.text).toContain('Several rows in "Tasks" have Name = "Ship v1"');
+      expect(result.text).toContain(first);
+      expect(result.text).toContain(second);
+      expect(session.fake.requestsTo("POST", "pages")).toHaveLength(0);
+    });
+
+    it("should roll back an atomic append by deleting only the appended blocks", async () => {
+      const red = { paragraph: { rich_text: [{ text: { content: "red" }, annotations: { color: "red" } }], color: "blue_background" } };
+      const pageId = session.fake.addPage({
+        title: "Board",
+        parent: rootId,
+        children: [
+          red,
+          { column_list: { children: [{ column: { children: [paragraph("left")] } }, { column: { children: [paragraph("right")] } }] } },
+        ],
+      });
+      const before = JSON.stringify(session.fake.children(pageId));
+      const lockedId = session.fake.addPage({ title: "Locked", parent: rootId });
+      session.fake.failNext("PATCH", `pages/${lockedId}`, 400, "validation_error");
+
+      const result = await session.call("write", {
+        markdown: [`---\nid: ${pageId}\n---\nappended\n`, `---\nid: ${lockedId}\ntitle: Unlocked\n---\n`].join("\n===\n"),
+        position: "append",
+        atomic: true,
+      });
+
+      expect(result.text).toContain("was rolled back");
+      expect(JSON.stringify(session.fake.children(pageId))).toBe(before);
+      const columns = session.fake.children(session.fake.children(pageId)[1].id as string);
+      expect(columns.flatMap((column) => session.fake.childTexts(column.id as string))).toEqual(["left", "right"]);
+    });
+
+    it("should restore replaced blocks with their colors in place", async () => {
+      const pageId = session.fake.addPage({
+        title: "Notes",
+        parent: rootId,
+        children: [
+          { paragraph: { rich_text: [{ text: { content: "keep" }, annotations: { color: "red" } }], color: "blue_background" } },
+          { paragraph: { rich_text: [{ text: { content: "edit" }, annotations: { bold: true, color: "green" } }] } },
+        ],
+      });
+      const before = session.fake.children(pageId);
+      const lockedId = session.fake.addPage({ title: "Locked", parent: rootId });
+      session.fake.failNext("PATCH", `pages/${lockedId}`, 400, "validation_error");
+
+      await session.call("write", {
+        markdown: [`---\nid: ${pageId}\n---\nkeep\n\nedited\n\nadded\n`, `---\nid: ${lockedId}\ntitle: Unlocked\n---\n`].join("\n===\n"),
+        atomic: true,
+        overwrite: true,
+      });
+
+      const after = session.fake.children(pageId);
+      expect(after.map((b) => b.id)).toEqual(before.map((b) => b.id));
+      expect(after.map((b) => b.paragraph)).toEqual(before.map((b) => b.paragraph));
+    });
+
+    it("should refuse an atomic replace that would delete blocks it cannot recreate", async () => {
+      const pageId = session.fake.addPage({ title: "Hub", parent: rootId, children: [paragraph("intro")] });
+      session.fake.addPage({ title: "Sub", parent: pageId });
+
+      const result = await session.call("write", {
+        markdown: `---\nid: ${pageId}\n---\nonly this\n`,
+        force: true,
+        atomic: true,
+      });
+
+      expect(result.isError).toBe(true);
+      expect(result.text).toContain("NOT_RESTORABLE");
+      expect(session.fake.childTexts(pageId)).toEqual(["intro", "Sub"]);
+    });
+
+    it("should reject updates when the page does not exist", async () => {
+      const result = await session.call("write", {
+        markdown: "---\nid: 0123456789abcdef0123456789abcdef\n---\nbody\n",
+      });
+
+      expect(result.isError).toBe(true);
+      expect(result.text).toContain("HTTP 404");
+      expect(result.text).toContain("object_not_found");
+    });
+  });
+});
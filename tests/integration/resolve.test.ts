@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { connectFakeServer, type TestSession } from "../helpers/mcp.js";
+
+describe("name resolution", () => {
+  let session: TestSession;
+  let rootId: string;
+
+  beforeEach(async () => {
+    session = await connectFakeServer();
+    rootId = session.fake.addPage({ title: "Projects" });
+  });
+
+  afterEach(async () => {
+    await session.close();
+  });
+
+  it("should match titles ignoring case, spacing and emoji", async () => {
+    const pageId = session.fake.addPage({ title: "Task Board 📋", parent: rootId });
+
+    const result = await session.call("comment", { page: "task  board" });
+
+    expect(result.isError).toBe(false);
+    expect(result.structured.pageId).toBe(pageId);
+  });
+
+  it("should resolve a close typo", async () => {
+    const pageId = session.fake.addPage({ title: "Product Roadmap", parent: rootId });
+
+    const result = await session.call("comment", { page: "Product Roadmp" });
+
+    expect(result.isError).toBe(false);
+    expect(result.structured.pageId).toBe(pageId);
+  });
+
+  it("should not write to or move into a page that only matches approximately", async () => {
+    session.fake.addDatabase({ title: "Tasks", parent: rootId, properties: { Name: "title" } });
+    const pageId = session.fake.addPage({ title: "Draft", parent: rootId });
+
+    const write = await session.call("write", { markdown: "---\ndatabase: Task\ntitle: New\n---\n" });
+    const move = await session.call("move", { page: pageId, to: "projects" });
+
+    expect(write.isError).toBe(true);
+    expect(write.text).toContain('"Task" has no exact match (closest: "Tasks")');
+    expect(write.text).toContain('"Tasks" (database, in "Projects")');
+    expect(session.fake.requestsTo("POST", "pages")).toHaveLength(0);
+    expect(move.isError).toBe(true);
+    expect(move.text).toContain('"projects" has no exact match (closest: "Projects")');
+    expect(session.fake.requestsTo("POST", `pages/${pageId}/move`)).toHaveLength(0);
+  });
+
+  it("should suggest candidates with their parents when nothing matches", async () => {
+    session.fake.addPage({ title: "Roadmap 2026", parent: rootId });
+    session.fake.addPage({ title: "Roadmap 2027" });
+
+    const result = await session.call("comment", { page: "Roadmap" });
+
+    expect(result.isError).toBe(true);
+    expect(result.text).toContain('Error [NOT_FOUND]: "Roadmap" not found.');
+    expect(result.text).toContain("Did you mean:");
+    expect(result.text).toContain('"Roadmap 2026" (page, in "Projects")');
+    expect(result.text).toContain('"Roadmap 2027" (page, in workspace)');
+  });
+
+  it("should list every exact match with its parent when ambiguous", async () => {
+    const archive = session.fake.addPage({ title: "Archive" });
+    const first = session.fake.addPage({ title: "Notes", parent: rootId });
+    const second = session.fake.addPage({ title: "Notes", parent: archive });
+
+    const result = await session.call("comment", { page: "Notes" });
+
+    expect(result.isError).toBe(true);
+    expect(result.text).toContain("AMBIGUOUS");
+    expect(result.text).toContain(`"Notes" (page, in "Projects"): ${first}`);
+    expect(result.text).toContain(`"Notes" (page, in "Archive"): ${second}`);
+  });
+
+  describe("paths", () => {
+    let alphaId: string;
+    let notesId: string;
+
+    beforeEach(() => {
+      alphaId = session.fake.addPage({ title: "Alpha", parent: rootId });
+      notesId = session.fake.addPage({ title: "Notes", parent: alphaId });
+      const archive = session.fake.addPage({ title: "Archive" });
+      const oldAlpha = session.fake.addPage({ title: "Alpha", parent: archive });
+      session.fake.addPage({ title: "Notes", parent: oldAlpha });
+    });
+
+    it("should walk child pages from the root title", async () => {
+      const result = await session.call("comment", { page: "Projects/Alpha/Notes" });
+
+      expect(result.isError).toBe(false);
+      expect(result.structured.pageId).toBe(notesId);
+    });
+
+    it("should accept an ID as the root segment", async () => {
+      const result = await session.call("comment", { page: `${rootId}/alpha/notes` });
+
+      expect(result.structured.pageId).toBe(notesId);
+    });
+
+    it("should resolve parent paths in frontmatter and move targets", async () => {
+      const written = await session.call("write", {
+        markdown: "---\ntitle: Minutes\nparent: Projects/Alpha/Notes\n---\nBody",
+      });
+      const pageId = written.structured.results[0].id;
+      expect(session.fake.pages.get(pageId)!.parent).toMatchObject({ page_id: notesId });
+
+      await session.call("move", { page: pageId, to: "Projects/Alpha" });
+      expect(session.fake.pages.get(pageId)!.parent).toMatchObject({ page_id: alphaId });
+    });
+
+    it("should end a path at a child database", async () => {
+      const { databaseId, dataSourceId } = session.fake.addDatabase({
+        title: "Tasks",
+        parent: alphaId,
+        properties: { Name: "title" },
+      });
+      session.fake.addRow(dataSourceId, { Name: "Write spec" });
+
+      const result = await session.call("list", { target: "Projects/Alpha/Tasks" });
+
+      expect(result.isError).toBe(false);
+      expect(result.structured.id).toBe(databaseId);
+      expect(result.text).toContain("Write spec");
+    });
+
+    it("should report missing segments with the children found", async () => {
+      const result = await session.call("comment", { page: "Projects/Alpha/Budget" });
+
+      expect(result.isError).toBe(true);
+      expect(result.text).toContain('Error [NOT_FOUND]: "Budget" not found under "Projects/Alpha". Children: "Notes"');
+    });
+
+    it("should reject a path that ends at the wrong type", async () => {
+      session.fake.addDatabase({ title: "Tasks", parent: alphaId, properties: { Name: "title" } });
+
+      const result = await session.call("comment", { page: "Projects/Alpha/Tasks" });
+
+      expect(result.isError).toBe(true);
+      expect(result.text).toContain("INVALID_PATH");
+    });
+
+    it("should fall back to titles that contain a slash", async () => {
+      const pageId = session.fake.addPage({ title: "Q1/Q2 Review", parent: rootId });
+
+      expect((await session.call("comment", { page: "Q1/Q2 Review" })).structured.pageId).toBe(pageId);
+      expect((await session.call("comment", { page: "Projects/Q1\\/Q2 Review" })).structured.pageId).toBe(pageId);
+    });
+
+    it("should fall back to titles with a slash when the first segment is ambiguous", async () => {
+      const pageId = session.fake.addPage({ title: "Alpha / Architecture", parent: rootId });
+
+      const result = await session.call("comment", { page: "Alpha / Architecture" });
+
+      expect(result.isError).toBe(false);
+      expect(result.structured.pageId).toBe(pageId);
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { connectFakeServer, type TestSession } from "../helpers/mcp.js";
+
+describe("resources", () => {
+  let session: TestSession;
+  let rootId: string;
+
+  beforeEach(async () => {
+    session = await connectFakeServer();
+    rootId = session.fake.addPage({ title: "Projects" });
+  });
+
+  afterEach(async () => {
+    await session.close();
+    delete process.env.NOTION_API_KEY_OTHER;
+  });
+
+  const read = async (uri: string) => {
+    const result = await session.client.readResource({ uri });
+    return (result.contents[0] as { text: string }).text;
+  };
+
+  it("should read a page in the workspace named in the URI", async () => {
+    process.env.NOTION_API_KEY_OTHER = "secret_other";
+
+    expect(await read(`notion://page/${rootId}?workspace=other`)).toContain("title: Projects");
+    await expect(read(`notion://page/${rootId}?workspace=nowhere`)).rejects.toThrow("Unknown workspace");
+  });
+
+  it("should list every data source of a multi-source database", async () => {
+    const crm = session.fake.addDatabase({
+      title: "CRM",
+      parent: rootId,
+      dataSource: "Leads",
+      properties: { Name: "title", Stage: { type: "select", options: ["New", "Won"] } },
+    });
+    const contactsId = session.fake.addDataSource(crm.databaseId, {
+      title: "Contacts",
+      properties: { Name: "title", Email: "email" },
+    });
+    session.fake.addRow(crm.dataSourceId, { Name: "Acme deal", Stage: "New" });
+    session.fake.addRow(contactsId, { Name: "Ada" });
+
+    const all = await read(`notion://database/${crm.databaseId}`);
+    const one = await read(`notion://database/${contactsId}`);
+
+    expect(all).toContain("Acme deal");
+    expect(all).toContain("Ada");
+    expect(one).toContain("Ada");
+    expect(one).not.toContain("Acme deal");
+  });
+});
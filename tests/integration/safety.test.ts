@@ -0,0 +1,59 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { connectFakeServer, type TestSession } from "../helpers/mcp.js";
+
+describe("safety modes", () => {
+  let session: TestSession;
+
+  afterEach(async () => {
+    await session.close();
+    delete process.env.NOTION_READ_ONLY;
+    delete process.env.NOTION_DENY_TOOLS;
+  });
+
+  const promptNames = async () => (await session.client.listPrompts()).prompts.map((p) => p.name).sort();
+
+  it("should offer every prompt by default", async () => {
+    session = await connectFakeServer();
+
+    expect(await promptNames()).toEqual(["meeting-notes", "triage-database", "weekly-review"]);
+  });
+
+  it("should hide tools and the prompts that rely on them in read-only mode", async () => {
+    process.env.NOTION_READ_ONLY = "true";
+    session = await connectFakeServer();
+
+    const tools = (await session.client.listTools()).tools.map((t) => t.name);
+    expect(tools).toContain("read");
+    expect(tools).not.toContain("write");
+    expect(session.client.getServerCapabilities()?.prompts).toBeUndefined();
+  });
+
+  it("should hide only the prompts whose tools are disabled", async () => {
+    process.env.NOTION_DENY_TOOLS = "update";
+    session = await connectFakeServer();
+
+    expect(await promptNames()).toEqual(["meeting-notes", "weekly-review"]);
+  });
+
+  it("should hide resources when read or list is disabled", async () => {
+    process.env.NOTION_DENY_TOOLS = "list";
+    session = await connectFakeServer();
+
+    expect(session.client.getServerCapabilities()?.resources).toBeUndefined();
+  });
+
+  it("should treat property changes in an append as a replace", async () => {
+    process.env.NOTION_DENY_TOOLS = "write:replace";
+    session = await connectFakeServer();
+    const pageId = session.fake.addPage({ title: "Notes" });
+
+    const renamed = await session.call("write", { markdown: `---\nid: ${pageId}\ntitle: Renamed\n---\nmore\n`, position: "append" });
+    const unchanged = await session.call("write", { markdown: `---\nid: ${pageId}\ntitle: Notes\n---\nmore\n`, position: "append" });
+
+    expect(renamed.isError).toBe(true);
+    expect(renamed.text).toContain('Changing "title" needs "write:replace"');
+    expect(unchanged.isError).toBe(false);
+    expect(session.fake.titleOf(pageId)).toBe("Notes");
+    expect(session.fake.childTexts(pageId)).toEqual(["more"]);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { connectFakeServer, type TestSession } from "../helpers/mcp.js";
+
+describe("schema", () => {
+  let session: TestSession;
+  let tasks: { databaseId: string; dataSourceId: string };
+
+  beforeEach(async () => {
+    session = await connectFakeServer();
+    const rootId = session.fake.addPage({ title: "Projects" });
+    tasks = session.fake.addDatabase({
+      title: "Tasks",
+      parent: rootId,
+      properties: {
+        Name: "title",
+        Priority: { type: "select", options: ["Low", "High"] },
+        Estimate: "number",
+      },
+    });
+  });
+
+  afterEach(async () => {
+    await session.close();
+  });
+
+  const propertyNames = () =>
+    Object.keys(session.fake.dataSources.get(tasks.dataSourceId)!.properties as object);
+
+  it("should list properties with options and formats", async () => {
+    const result = await session.call("schema", { database: tasks.databaseId });
+
+    expect(result.isError).toBe(false);
+    expect(result.text).toContain("# Tasks — Schema (3 properties)");
+    expect(result.text).toContain("| Priority | select | Low, High |");
+    expect(result.structured).toMatchObject({ action: "list", dataSourceId: tasks.dataSourceId, title: "Tasks" });
+    expect(result.structured.properties).toContainEqual({ name: "Estimate", type: "number", format: "number" });
+  });
+
+  it("should add, rename and remove properties", async () => {
+    const added = await session.call("schema", {
+      database: tasks.databaseId,
+      action: "add",
+      property: "Stage",
+      type: "select",
+      options: ["Idea", "Build"],
+    });
+    expect(added.isError).toBe(false);
+    expect(propertyNames()).toContain("Stage");
+
+    await session.call("schema", { database: tasks.databaseId, action: "rename", property: "Stage", name: "Phase" });
+    expect(propertyNames()).toContain("Phase");
+    expect(propertyNames()).not.toContain("Stage");
+
+    await session.call("schema", { database: tasks.databaseId, action: "remove", property: "Phase" });
+    expect(propertyNames()).toEqual(["Name", "Priority", "Estimate"]);
+  });
+
+  it("should fail for properties that do not exist", async () => {
+    const result = await session.call("schema", { database: tasks.databaseId, action: "remove", property: "Ghost" });
+
+    expect(result.isError).toBe(true);
+    expect(result.text).toContain("PROPERTY_NOT_FOUND");
+  });
+});
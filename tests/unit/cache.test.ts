@@ -0,0 +1,54 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { MetadataCache, clearCache } from "../../src/notion/cache.js";
+import { withWorkspace } from "../../src/notion/workspace.js";
+
+describe("MetadataCache", () => {
+  afterEach(() => {
+    delete process.env.NOTION_CACHE_TTL;
+  });
+
+  it("should expire entries after the TTL", () => {
+    process.env.NOTION_CACHE_TTL = "10";
+    let now = 0;
+    const cache = new MetadataCache<string>(() => now);
+
+    cache.set("a", "value");
+    now = 9_999;
+    expect(cache.get("a")).toBe("value");
+    now = 10_000;
+    expect(cache.get("a")).toBeUndefined();
+  });
+
+  it("should load once and reuse the value", async () => {
+    const cache = new MetadataCache<number>();
+    let loads = 0;
+    const load = async () => ++loads;
+
+    expect(await cache.getOrLoad("k", load)).toBe(1);
+    expect(await cache.getOrLoad("k", load)).toBe(1);
+    expect(loads).toBe(1);
+  });
+
+  it("should share a load that is still in flight", async () => {
+    const cache = new MetadataCache<number>();
+    let loads = 0;
+    const load = async () => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      return ++loads;
+    };
+
+    expect(await Promise.all([cache.getOrLoad("k", load), cache.load("k", load)])).toEqual([1, 1]);
+    expect(loads).toBe(1);
+  });
+
+  it("should clear only the current workspace", async () => {
+    const cache = new MetadataCache<string>();
+    cache.set("k", "default");
+    await withWorkspace("other", async () => cache.set("k", "other"));
+
+    await withWorkspace("other", async () => clearCache());
+
+    expect(cache.get("k")).toBe("default");
+    expect(await withWorkspace("other", async () => cache.get("k"))).toBeUndefined();
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import {
+  parseConfig,
+  findAlias,
+  getDatabaseConfig,
+  resetConfig,
+} from "../../src/config.js";
+import { withWorkspace } from "../../src/notion/workspace.js";
+import { writeFileSync, mkdtempSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+
+const TASKS_ID = "abcdef01-2345-6789-abcd-ef0123456789";
+const ALPHA_ID = "aaaaaaaa-2222-3333-4444-555555555555";
+
+describe("parseConfig", () => {
+  it("should parse YAML aliases and database defaults", () => {
+    const config = parseConfig(
+      `
+pages:
+  alpha: aaaaaaaa222233334444555555555555
+databases:
+  tasks:
+    id: ${TASKS_ID}
+    list:
+      filter: Status != Done
+      sort: Due Date asc
+      columns: [Name, Status]
+    defaults:
+      properties:
+        Status: Todo
+`,
+      "yaml"
+    );
+
+    expect(config.pages.alpha).toBe(ALPHA_ID);
+    expect(config.databases.tasks.id).toBe(TASKS_ID);
+    expect(config.databases.tasks.list?.columns).toEqual(["Name", "Status"]);
+    expect(config.databases.tasks.defaults?.properties).toEqual({ Status: "Todo" });
+  });
+
+  it("should accept a plain ID string for a database", () => {
+    const config = parseConfig(
+      JSON.stringify({ databases: { tasks: "https://notion.so/abcdef0123456789abcdef0123456789" } }),
+      "json"
+    );
+    expect(config.databases.tasks).toEqual({ id: TASKS_ID });
+  });
+
+  it("should return an empty config for an empty file", () => {
+    const config = parseConfig("", "yaml");
+    expect(config.pages).toEqual({});
+    expect(config.databases).toEqual({});
+  });
+
+  it("should report invalid fields", () => {
+    expect(() =>
+      parseConfig(JSON.stringify({ databases: { tasks: { list: {} } } }), "json")
+    ).toThrow(/databases\.tasks/);
+  });
+
+  it("should report syntax errors", () => {
+    expect(() => parseConfig("{ not json", "json")).toThrow(/Failed to parse/);
+  });
+});
+
+describe("findAlias / getDatabaseConfig", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "better-notion-"));
+    const path = join(dir, ".better-notion.json");
+    writeFileSync(
+      path,
+      JSON.stringify({
+        pages: { alpha: ALPHA_ID },
+        databases: { tasks: { id: TASKS_ID, defaults: { icon: "✅" } } },
+        workspaces: { "My-Work": { pages: { alpha: TASKS_ID } } },
+      })
+    );
+    process.env.BETTER_NOTION_CONFIG = path;
+    resetConfig();
+  });
+
+  afterEach(() => {
+    delete process.env.BETTER_NOTION_CONFIG;
+    resetConfig();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should resolve page and database aliases", () => {
+    expect(findAlias("alpha")).toEqual({ id: ALPHA_ID, object: "page" });
+    expect(findAlias("tasks")).toEqual({ id: TASKS_ID, object: "database" });
+  });
+
+  it("should respect the requested type", () => {
+    expect(findAlias("alpha", "database")).toBeNull();
+    expect(findAlias("tasks", "page")).toBeNull();
+  });
+
+  it("should not treat inherited object keys as aliases", () => {
+    expect(findAlias("constructor")).toBeNull();
+    expect(findAlias("toString", "database")).toBeNull();
+  });
+
+  it("should apply workspace overrides whose names need normalizing", async () => {
+    const alias = await withWorkspace("my-work", async () => findAlias("alpha"));
+    expect(alias).toEqual({ id: TASKS_ID, object: "page" });
+    expect(findAlias("alpha")).toEqual({ id: ALPHA_ID, object: "page" });
+  });
+
+  it("should look up database config by ID", () => {
+    expect(getDatabaseConfig(TASKS_ID.replace(/-/g, ""))?.defaults?.icon).toBe("✅");
+    expect(getDatabaseConfig(ALPHA_ID)).toBeUndefined();
+  });
+});
@@ -4,6 +4,8 @@ import {
   frontmatterToProperties,
   buildPageProperties,
   extractDatabaseSchema,
+  findSkippedProperties,
+  diffProperties,
 } from "../../../src/converter/frontmatter.js";
 import type { DocumentFrontmatter, DatabasePropertySchema } from "../../../src/converter/types.js";
 
@@ -315,10 +317,12 @@ describe("frontmatterToProperties", () => {
         Website: null,
         Category: null,
         "Due Date": null,
+        Priority: null,
       },
     };
 
     const result = frontmatterToProperties(fm, schema);
+    expect(result["Priority"]).toEqual({ number: null });
     expect(result["Website"]).toEqual({ url: null });
     expect(result["Category"]).toEqual({ select: null });
     expect(result["Due Date"]).toEqual({ date: null });
@@ -343,6 +347,49 @@ describe("buildPageProperties", () => {
   });
 });
 
+// ── dry run 用のテスト ──
+
+describe("findSkippedProperties", () => {
+  const schema: DatabasePropertySchema[] = [
+    { id: "title", name: "Name", type: "title" },
+    { id: "status", name: "Status", type: "select" },
+    { id: "formula", name: "Computed", type: "formula" },
+  ];
+
+  it("should list unknown and read-only properties with a reason", () => {
+    const fm: DocumentFrontmatter = { properties: { Status: "Done", Computed: 1, Owner: "me" } };
+
+    expect(findSkippedProperties(fm, schema)).toEqual([
+      { name: "Computed", reason: "formula is read-only" },
+      { name: "Owner", reason: "no such property in the database" },
+    ]);
+  });
+
+  it("should skip every property of a page outside a database", () => {
+    const fm: DocumentFrontmatter = { properties: { Status: "Done" } };
+
+    expect(findSkippedProperties(fm, undefined)).toEqual([
+      { name: "Status", reason: "not a database page; only the title can be set" },
+    ]);
+  });
+});
+
+describe("diffProperties", () => {
+  it("should return only the properties whose value changes", () => {
+    const fm: DocumentFrontmatter = { title: "Task", properties: { Status: "Done", Tags: ["a"] } };
+    const properties = {
+      Name: { title: [{ text: { content: "Task" } }] },
+      Status: { select: { name: "Done" } },
+      Tags: { multi_select: [{ name: "a" }] },
+    };
+
+    expect(diffProperties({ Name: "Task", Status: "Todo", Tags: ["a"] }, fm, properties)).toEqual([
+      { name: "Status", before: "Todo", after: "Done" },
+    ]);
+    expect(diffProperties({}, fm, properties)).toHaveLength(3);
+  });
+});
+
 // ── Helper ──
 
 function makePage(overrides: Record<string, unknown> = {}) {
@@ -0,0 +1,89 @@
+import { describe, it, expect } from "vitest";
+import type { BlockObjectRequest } from "@notionhq/client/build/src/api-endpoints.js";
+import { blockSignature, planBlockDiff, type DiffItem } from "../../src/notion/diff.js";
+
+const items = (...specs: string[]): DiffItem[] =>
+  specs.map((spec) => {
+    const [type, text] = spec.split(":");
+    return { type, signature: `${type}:${text}` };
+  });
+
+describe("blockSignature", () => {
+  it("should ignore defaults and rich text splits that differ between requests and responses", () => {
+    const request = {
+      paragraph: { rich_text: [{ type: "text", text: { content: "Hello world", link: null } }] },
+    } as BlockObjectRequest;
+    const response = {
+      object: "block",
+      type: "paragraph",
+      paragraph: {
+        color: "default",
+        rich_text: [
+          { type: "text", text: { content: "Hello ", link: null }, annotations: { bold: false, color: "default" }, plain_text: "Hello ", href: null },
+          { type: "text", text: { content: "world", link: null }, annotations: { bold: false, color: "default" }, plain_text: "world", href: null },
+        ],
+      },
+    } as unknown as BlockObjectRequest;
+
+    expect(blockSignature(response)).toBe(blockSignature(request));
+  });
+
+  it("should match unsupported blocks with their read placeholders", () => {
+    const placeholder = { paragraph: { rich_text: [{ text: { content: "[Unsupported: child_page]" } }] } } as BlockObjectRequest;
+    const childPage = { object: "block", type: "child_page", child_page: { title: "Sub" } } as unknown as BlockObjectRequest;
+    const childDatabase = { object: "block", type: "child_database", child_database: { title: "Sub" } } as unknown as BlockObjectRequest;
+
+    expect(blockSignature(placeholder)).toBe(blockSignature(childPage));
+    expect(blockSignature(placeholder)).not.toBe(blockSignature(childDatabase));
+  });
+
+  it("should tell formatting and links apart", () => {
+    const plain = { paragraph: { rich_text: [{ text: { content: "x" } }] } } as BlockObjectRequest;
+    const bold = { paragraph: { rich_text: [{ text: { content: "x" }, annotations: { bold: true } }] } } as BlockObjectRequest;
+    const link = { paragraph: { rich_text: [{ text: { content: "x", link: { url: "https://example.com" } } }] } } as BlockObjectRequest;
+
+    expect(new Set([plain, bold, link].map(blockSignature)).size).toBe(3);
+  });
+});
+
+describe("planBlockDiff", () => {
+  it("should keep everything when nothing changed", () => {
+    const blocks = items("heading_2:A", "paragraph:B");
+
+    expect(planBlockDiff(blocks, blocks).map((s) => s.kind)).toEqual(["keep", "keep"]);
+  });
+
+  it("should update changed blocks of the same type in place", () => {
+    const steps = planBlockDiff(items("heading_2:A", "paragraph:B", "paragraph:C"), items("heading_2:A", "paragraph:B2", "paragraph:C"));
+
+    expect(steps).toEqual([
+      { kind: "keep", from: 0, to: 0 },
+      { kind: "update", from: 1, to: 1 },
+      { kind: "keep", from: 2, to: 2 },
+    ]);
+  });
+
+  it("should insert and delete blocks that have no counterpart", () => {
+    const steps = planBlockDiff(items("paragraph:A", "divider:", "paragraph:C"), items("paragraph:A", "heading_1:New", "paragraph:C"));
+
+    expect(steps).toEqual([
+      { kind: "keep", from: 0, to: 0 },
+      { kind: "insert", to: 1 },
+      { kind: "delete", from: 1 },
+      { kind: "keep", from: 2, to: 2 },
+    ]);
+  });
+
+  it("should match moved-around unchanged blocks by longest common subsequence", () => {
+    const steps = planBlockDiff(items("paragraph:A", "paragraph:B", "paragraph:C"), items("paragraph:B", "paragraph:C", "paragraph:A"));
+
+    expect(steps.filter((s) => s.kind === "keep")).toEqual([
+      { kind: "keep", from: 1, to: 0 },
+      { kind: "keep", from: 2, to: 1 },
+    ]);
+    expect(steps.filter((s) => s.kind !== "keep")).toEqual([
+      { kind: "delete", from: 0 },
+      { kind: "insert", to: 2 },
+    ]);
+  });
+});
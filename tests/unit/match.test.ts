@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { matchTitles, normalizeTitle, similarity } from "../../src/notion/match.js";
+
+const candidates = (...titles: string[]) => titles.map((title) => ({ item: title, title }));
+
+describe("normalizeTitle", () => {
+  it("should ignore case, repeated whitespace and emoji", () => {
+    expect(normalizeTitle("  Task   Board 📋 ")).toBe("task board");
+    expect(normalizeTitle("Ｔａｓｋ")).toBe("task");
+  });
+});
+
+describe("similarity", () => {
+  it("should score typos and partial titles", () => {
+    expect(similarity("Task Board", "task board")).toBe(1);
+    expect(similarity("Taks Board", "Task Board")).toBeGreaterThanOrEqual(0.8);
+    expect(similarity("Roadmap", "Product Roadmap")).toBeCloseTo(7 / 15);
+    expect(similarity("Roadmap", "Invoices")).toBeLessThan(0.4);
+  });
+});
+
+describe("matchTitles", () => {
+  it("should prefer exact matches over normalized ones", () => {
+    const result = matchTitles("Tasks", candidates("tasks", "Tasks"));
+
+    expect(result.tier).toBe("exact");
+    expect(result.matches.map((m) => m.title)).toEqual(["Tasks"]);
+  });
+
+  it("should fall back to case- and emoji-insensitive matches", () => {
+    const result = matchTitles("task board", candidates("Task Board 📋", "Task Archive"));
+
+    expect(result.tier).toBe("normalized");
+    expect(result.matches.map((m) => m.title)).toEqual(["Task Board 📋"]);
+  });
+
+  it("should accept close fuzzy matches", () => {
+    const result = matchTitles("Meeting Note", candidates("Meeting Notes", "Notes"));
+
+    expect(result.tier).toBe("fuzzy");
+    expect(result.matches.map((m) => m.title)).toEqual(["Meeting Notes"]);
+  });
+
+  it("should not fuzzy-match titles with different numbers", () => {
+    const result = matchTitles("Sprint 12", candidates("Sprint 13", "Sprint 11"));
+
+    expect(result.tier).toBeUndefined();
+    expect(result.ranked.map((m) => m.title)).toEqual(["Sprint 13", "Sprint 11"]);
+  });
+
+  it("should rank suggestions by similarity", () => {
+    const result = matchTitles("Roadmap", candidates("Invoices", "Product Roadmap", "Roadmap 2027"));
+
+    expect(result.matches).toEqual([]);
+    expect(result.ranked.map((m) => m.title)).toEqual(["Roadmap 2027", "Product Roadmap"]);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect, afterEach } from "vitest";
+import {
+  isToolEnabled,
+  isActionAllowed,
+  assertAllowed,
+} from "../../src/permissions.js";
+
+const ENV_KEYS = ["NOTION_READ_ONLY", "NOTION_ALLOW_TOOLS", "NOTION_DENY_TOOLS"];
+
+afterEach(() => {
+  for (const key of ENV_KEYS) delete process.env[key];
+});
+
+describe("permissions", () => {
+  it("should allow everything by default", () => {
+    expect(isToolEnabled("delete")).toBe(true);
+    expect(isActionAllowed("write", "replace")).toBe(true);
+  });
+
+  it("should disable mutating tools in read-only mode", () => {
+    process.env.NOTION_READ_ONLY = "true";
+
+    expect(isToolEnabled("read")).toBe(true);
+    expect(isToolEnabled("search")).toBe(true);
+    expect(isToolEnabled("write")).toBe(false);
+    expect(isToolEnabled("delete")).toBe(false);
+    expect(isToolEnabled("move")).toBe(false);
+    expect(isToolEnabled("update")).toBe(false);
+
+    // schema / comment は読み取りアクションだけ残る
+    expect(isToolEnabled("schema")).toBe(true);
+    expect(isActionAllowed("schema", "list")).toBe(true);
+    expect(isActionAllowed("schema", "remove")).toBe(false);
+    expect(isActionAllowed("comment", "read")).toBe(true);
+    expect(isActionAllowed("comment", "add")).toBe(false);
+  });
+
+  it("should apply the deny list per action", () => {
+    process.env.NOTION_DENY_TOOLS = "delete, write:replace";
+
+    expect(isToolEnabled("delete")).toBe(false);
+    expect(isToolEnabled("write")).toBe(true);
+    expect(isActionAllowed("write", "append")).toBe(true);
+    expect(isActionAllowed("write", "replace")).toBe(false);
+  });
+
+  it("should only expose allow-listed tools and actions", () => {
+    process.env.NOTION_ALLOW_TOOLS = "read,search,schema:list";
+
+    expect(isToolEnabled("read")).toBe(true);
+    expect(isToolEnabled("list")).toBe(false);
+    expect(isToolEnabled("schema")).toBe(true);
+    expect(isActionAllowed("schema", "list")).toBe(true);
+    expect(isActionAllowed("schema", "add")).toBe(false);
+  });
+
+  it("should throw FORBIDDEN for denied actions", () => {
+    process.env.NOTION_DENY_TOOLS = "schema:remove";
+    expect(() => assertAllowed("schema", "remove")).toThrow(/schema:remove/);
+    expect(() => assertAllowed("schema", "add")).not.toThrow();
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect } from "vitest";
+import { RateLimiter } from "../../src/notion/rate-limit.js";
+
+/** 実時間を使わない時計。sleep すると時刻が進む */
+function createClock() {
+  const clock = {
+    now: 0,
+    sleeps: [] as number[],
+    sleep: async (ms: number) => {
+      clock.sleeps.push(ms);
+      clock.now += ms;
+    },
+  };
+  return clock;
+}
+
+function apiError(status: number, headers: Record<string, string> = {}) {
+  return Object.assign(new Error(`HTTP ${status}`), { status, headers: new Headers(headers) });
+}
+
+describe("RateLimiter", () => {
+  it("should allow a burst and then space requests at the configured rate", async () => {
+    const clock = createClock();
+    const limiter = new RateLimiter({ requestsPerSecond: 3, burst: 3 }, clock.sleep, () => clock.now);
+    const startedAt: number[] = [];
+
+    for (let i = 0; i < 6; i++) {
+      await limiter.schedule(async () => startedAt.push(clock.now));
+    }
+
+    expect(startedAt.slice(0, 3)).toEqual([0, 0, 0]);
+    expect(startedAt[5]).toBeGreaterThanOrEqual(999);
+  });
+
+  it("should honor Retry-After for every caller", async () => {
+    const clock = createClock();
+    const limiter = new RateLimiter({ burst: 10 }, clock.sleep, () => clock.now);
+    let calls = 0;
+
+    const result = await limiter.schedule(async () => {
+      calls++;
+      if (calls === 1) throw apiError(429, { "retry-after": "2" });
+      return "ok";
+    });
+    const nextStart = await limiter.schedule(async () => clock.now);
+
+    expect(result).toBe("ok");
+    expect(calls).toBe(2);
+    expect(clock.sleeps).toEqual([2000]);
+    expect(nextStart).toBe(2000);
+  });
+
+  it("should back off with jitter on 5xx and give up after maxRetries", async () => {
+    const clock = createClock();
+    const limiter = new RateLimiter(
+      { burst: 10, maxRetries: 3, baseDelayMs: 100, maxDelayMs: 250 },
+      clock.sleep,
+      () => clock.now,
+      () => 1
+    );
+    let calls = 0;
+
+    await expect(
+      limiter.schedule(async () => {
+        calls++;
+        throw apiError(502);
+      })
+    ).rejects.toThrow("HTTP 502");
+
+    expect(calls).toBe(4);
+    expect(clock.sleeps.filter((ms) => ms >= 100)).toEqual([100, 200, 250]);
+  });
+
+  it("should retry only 429 for non-idempotent requests", async () => {
+    const clock = createClock();
+    const limiter = new RateLimiter({ burst: 10 }, clock.sleep, () => clock.now);
+    const errors = [apiError(429, { "retry-after": "0" }), apiError(503)];
+    let calls = 0;
+
+    await expect(
+      limiter.schedule(
+        async () => {
+          throw errors[calls++];
+        },
+        { idempotent: false }
+      )
+    ).rejects.toThrow("HTTP 503");
+
+    expect(calls).toBe(2);
+  });
+
+  it("should not retry other errors", async () => {
+    const clock = createClock();
+    const limiter = new RateLimiter({}, clock.sleep, () => clock.now);
+    let calls = 0;
+
+    await expect(
+      limiter.schedule(async () => {
+        calls++;
+        throw apiError(404);
+      })
+    ).rejects.toThrow("HTTP 404");
+    expect(calls).toBe(1);
+  });
+});